@@ -0,0 +1,85 @@
+import { BulkEdit, Filter, SEEN_FLAG } from './storage';
+import { getFolderPathError, getLabelNameError } from './registry';
+
+function validateLabelList(labels: unknown, field: string): string | null {
+  if (labels === undefined) return null;
+  if (!Array.isArray(labels)) {
+    return `${field} must be an array of label names`;
+  }
+  for (const label of labels) {
+    const labelError = getLabelNameError(label);
+    if (labelError) return labelError;
+  }
+  return null;
+}
+
+function validateOptionalBoolean(value: unknown, field: string): string | null {
+  if (value !== undefined && typeof value !== 'boolean') {
+    return `${field} must be true or false`;
+  }
+  return null;
+}
+
+// Check the shape and names of a bulk edit before it is applied to any filter
+export function validateBulkEdit(edit: BulkEdit | null | undefined): string | null {
+  if (!edit || typeof edit !== 'object') {
+    return 'changes are required';
+  }
+  const { addLabels, removeLabels, expirationDays, targetFolder, markRead, addYearLabel } = edit;
+  const labelError =
+    validateLabelList(addLabels, 'addLabels') ?? validateLabelList(removeLabels, 'removeLabels');
+  if (labelError) return labelError;
+  const both = (addLabels ?? []).find((label) => removeLabels?.includes(label));
+  if (both) {
+    return `Label "${both}" cannot be both added and removed`;
+  }
+  if (
+    expirationDays !== undefined &&
+    expirationDays !== null &&
+    (!Number.isInteger(expirationDays) || expirationDays < 1)
+  ) {
+    return 'expirationDays must be a whole number of days, or null to clear it';
+  }
+  if (targetFolder !== undefined && targetFolder !== '') {
+    const folderError = getFolderPathError(targetFolder);
+    if (folderError) return folderError;
+  }
+  const booleanError =
+    validateOptionalBoolean(markRead, 'markRead') ?? validateOptionalBoolean(addYearLabel, 'addYearLabel');
+  if (booleanError) return booleanError;
+  if (Object.values(edit).every((value) => value === undefined)) {
+    return 'No changes were given';
+  }
+  return null;
+}
+
+// Apply a validated bulk edit to one filter. Filters the edit leaves as they
+// were are returned unchanged, keeping their updatedAt.
+export function applyBulkEdit(filter: Filter, edit: BulkEdit, updatedAt: string): Filter {
+  const labels = filter.labels.filter((label) => !edit.removeLabels?.includes(label));
+  for (const label of edit.addLabels ?? []) {
+    if (!labels.includes(label)) labels.push(label);
+  }
+  let flags = filter.flags;
+  if (edit.markRead === true && !flags.includes(SEEN_FLAG)) {
+    flags = [...flags, SEEN_FLAG];
+  } else if (edit.markRead === false) {
+    flags = flags.filter((flag) => flag !== SEEN_FLAG);
+  }
+
+  const edited: Filter = {
+    ...filter,
+    labels,
+    flags,
+    expirationDays: edit.expirationDays !== undefined ? edit.expirationDays : filter.expirationDays,
+    targetFolder: edit.targetFolder ?? filter.targetFolder,
+    addYearLabel: edit.addYearLabel ?? filter.addYearLabel,
+  };
+  const changed =
+    edited.labels.join('\n') !== filter.labels.join('\n') ||
+    edited.flags.length !== filter.flags.length ||
+    edited.expirationDays !== filter.expirationDays ||
+    edited.targetFolder !== filter.targetFolder ||
+    edited.addYearLabel !== filter.addYearLabel;
+  return changed ? { ...edited, updatedAt } : filter;
+}
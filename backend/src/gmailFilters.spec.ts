@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { importGmailFilters, exportGmailFilters, GmailFormatError } from './gmailFilters';
+import { Filter } from './storage';
+
+function makeFilter(overrides: Partial<Filter> = {}): Filter {
+  return {
+    id: '1',
+    name: 'Shop',
+    enabled: true,
+    conditions: {
+      type: 'allof',
+      children: [
+        {
+          type: 'address',
+          header: 'from',
+          entries: [
+            { value: 'news@shop.com', mode: 'exact' },
+            { value: 'deals.com', mode: 'domain' },
+          ],
+        },
+      ],
+    },
+    expirationDays: null,
+    flags: ['\\Seen'],
+    addYearLabel: false,
+    dateLabel: null,
+    vacation: null,
+    targetFolder: 'Shopping',
+    labels: [],
+    stopProcessing: true,
+    priority: 0,
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    deployment: null,
+    ...overrides,
+  };
+}
+
+function feed(properties: string): string {
+  return `<?xml version='1.0' encoding='UTF-8'?>
+<feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>
+  <entry>
+    <category term='filter'></category>
+    ${properties}
+  </entry>
+</feed>`;
+}
+
+test('exported filters import back with the same conditions and actions', () => {
+  const filter = makeFilter({ labels: ['Promo "x" & <y>'] });
+  const { xml, exported, issues } = exportGmailFilters([filter]);
+  assert.equal(exported, 1);
+  assert.ok(issues.every((issue) => !issue.skipped));
+
+  const result = importGmailFilters(xml);
+  assert.deepEqual(result.issues, []);
+  assert.equal(result.filters.length, 1);
+  const [imported] = result.filters;
+  assert.deepEqual(imported.conditions, filter.conditions);
+  assert.equal(imported.targetFolder, 'Shopping');
+  assert.deepEqual(imported.labels, ['Promo "x" & <y>']);
+  assert.deepEqual(imported.flags, ['\\Seen']);
+});
+
+test('character references are decoded', () => {
+  const result = importGmailFilters(
+    feed(`<apps:property name='from' value='caf&#xe9;@example.com'/><apps:property name='label' value='A&#38;B'/>`)
+  );
+  const [filter] = result.filters;
+  assert.deepEqual(filter.conditions, {
+    type: 'allof',
+    children: [{ type: 'address', header: 'from', entries: [{ value: 'café@example.com', mode: 'exact' }] }],
+  });
+  assert.deepEqual(filter.labels, ['A&B']);
+});
+
+test('character references outside Unicode are a format error', () => {
+  for (const reference of ['&#x110000;', '&#99999999;', '&#0;', '&#xD800;']) {
+    assert.throws(
+      () => importGmailFilters(feed(`<apps:property name='from' value='a${reference}@example.com'/>`)),
+      GmailFormatError,
+      reference
+    );
+  }
+});
+
+test('files that are not a Gmail export are a format error', () => {
+  assert.throws(() => importGmailFilters('<html><body>Not filters</body></html>'), GmailFormatError);
+  assert.throws(() => importGmailFilters(''), GmailFormatError);
+});
+
+test('searches that cannot be mapped are reported with their line', () => {
+  const result = importGmailFilters(
+    feed(`<apps:property name='hasTheWord' value='invoice -draft'/><apps:property name='label' value='Bills'/>`)
+  );
+  assert.ok(result.issues.length > 0);
+  assert.ok(result.issues.every((issue) => issue.line === 3));
+});
@@ -0,0 +1,427 @@
+import { CreateFilterData, Filter, ConditionNode, AddressCondition, AddressEntry, SEEN_FLAG } from './storage';
+
+const FLAGGED_FLAG = '\\Flagged';
+
+// The uploaded file is not a Gmail filter export
+export class GmailFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GmailFormatError';
+  }
+}
+
+// A Gmail entry or property that could not be mapped, tied to its line in the XML
+export interface GmailImportIssue {
+  line: number;
+  source: string;
+  message: string;
+  filterIndex?: number;
+}
+
+export interface GmailImportResult {
+  filters: CreateFilterData[];
+  issues: GmailImportIssue[];
+}
+
+export interface GmailImportOptions {
+  // Names already taken in the database, so generated names stay unique
+  existingNames?: string[];
+}
+
+// Something in our filters that Gmail cannot express. Filters with
+// conditions Gmail cannot match are left out rather than broadened.
+export interface GmailExportIssue {
+  filterId?: string;
+  filterName?: string;
+  message: string;
+  skipped: boolean;
+}
+
+export interface GmailExportResult {
+  xml: string;
+  exported: number;
+  issues: GmailExportIssue[];
+}
+
+// Gmail properties that pick messages, in the order Gmail writes them
+const CRITERIA = ['from', 'to', 'subject', 'hasTheWord', 'doesNotHaveTheWord'] as const;
+
+// Written by Gmail on every entry, even without a size condition
+const SIZE_DEFAULTS = ['sizeOperator', 'sizeUnit'];
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|amp|lt|gt|quot|apos);/gi, (reference: string, entity: string) => {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    if (entity[0] !== '#') return named[entity.toLowerCase()];
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    // Zero, surrogates and anything past U+10FFFF are not characters XML allows
+    if (code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+      throw new GmailFormatError(`The file contains an invalid character reference: ${reference}`);
+    }
+    return String.fromCodePoint(code);
+  });
+}
+
+function encodeXml(value: string): string {
+  return value.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[ch]!);
+}
+
+// Split a Gmail search value into alternatives: "a OR b", "a | b" and
+// "{a b}" all mean either. Returns null for anything else, such as several
+// words that must all match or negated terms.
+function splitAlternatives(value: string): string[] | null {
+  let text = value.trim();
+  let braces = false;
+  if (text.startsWith('{') && text.endsWith('}')) {
+    text = text.slice(1, -1);
+    braces = true;
+  } else if (text.startsWith('(') && text.endsWith(')')) {
+    text = text.slice(1, -1);
+  }
+  const tokens = text.match(/"[^"]*"|[^\s|]+|\|/g) ?? [];
+  const terms: string[] = [];
+  let expectTerm = true;
+  for (const token of tokens) {
+    if (!braces && (token === 'OR' || token === '|')) {
+      if (expectTerm) return null;
+      expectTerm = true;
+      continue;
+    }
+    if (!braces && !expectTerm) return null;
+    if (token.startsWith('-') || token === 'AND') return null;
+    terms.push(token.replace(/^"(.*)"$/, '$1'));
+    expectTerm = false;
+  }
+  return terms.length > 0 && (braces || !expectTerm) ? terms : null;
+}
+
+// Gmail matches addresses by words, so "example.com" also covers its
+// subdomains and a bare word is closest to a domain that contains it
+function fromGmailTerm(term: string): AddressEntry {
+  if (term.startsWith('@')) return { value: term.slice(1), mode: 'domain' };
+  if (term.endsWith('@')) return { value: term.slice(0, -1), mode: 'localpart' };
+  if (term.includes('@')) return { value: term, mode: 'exact' };
+  if (term.includes('.')) return { value: term, mode: 'subdomains' };
+  return { value: term, mode: 'domain-contains' };
+}
+
+interface GmailEntry {
+  line: number;
+  source: string;
+  properties: Map<string, string>;
+}
+
+// Pull the entries and their apps:property elements out of mailFilters.xml
+function parseEntries(xml: string): GmailEntry[] {
+  const entries: GmailEntry[] = [];
+  const entryPattern = /<entry[\s>][\s\S]*?<\/entry>/g;
+  let match;
+  while ((match = entryPattern.exec(xml)) !== null) {
+    const properties = new Map<string, string>();
+    const propertyPattern = /<apps:property\s+([^>]*?)\/?>/g;
+    let property;
+    while ((property = propertyPattern.exec(match[0])) !== null) {
+      const attributes = new Map<string, string>();
+      for (const attribute of property[1].matchAll(/([\w:]+)\s*=\s*(?:'([^']*)'|"([^"]*)")/g)) {
+        attributes.set(attribute[1], decodeXml(attribute[2] ?? attribute[3]));
+      }
+      const name = attributes.get('name');
+      if (name) {
+        properties.set(name, attributes.get('value') ?? '');
+      }
+    }
+    entries.push({
+      line: xml.slice(0, match.index).split('\n').length,
+      source: match[0].replace(/\s+/g, ' ').slice(0, 200),
+      properties,
+    });
+  }
+  return entries;
+}
+
+function describeCriteria(properties: Map<string, string>): string {
+  return CRITERIA.filter((name) => properties.has(name))
+    .map((name) => `${name}:${properties.get(name)}`)
+    .join(' ');
+}
+
+// Turn Gmail's mailFilters.xml into filter data. Gmail applies one label per
+// filter, so entries with the same criteria are merged into one filter, and
+// "skip the inbox" with a label becomes a move into a folder of that name.
+export function importGmailFilters(xml: string, options: GmailImportOptions = {}): GmailImportResult {
+  if (!/<feed[\s>]/.test(xml)) {
+    throw new GmailFormatError('This does not look like a Gmail mailFilters.xml export');
+  }
+  const filters: CreateFilterData[] = [];
+  const issues: GmailImportIssue[] = [];
+  const byCriteria = new Map<string, { filter: CreateFilterData; archivedLabels: string[]; archive: boolean }>();
+  const takenNames = new Set((options.existingNames ?? []).map((n) => n.toLowerCase()));
+
+  for (const entry of parseEntries(xml)) {
+    const { properties } = entry;
+    const criteria = describeCriteria(properties);
+    const existing = byCriteria.get(criteria);
+    const filterIndex = existing ? filters.indexOf(existing.filter) : filters.length;
+    const report = (message: string) => issues.push({ line: entry.line, source: entry.source, message, filterIndex });
+
+    if (!existing) {
+      const children: ConditionNode[] = [];
+      for (const header of ['from', 'to'] as const) {
+        const value = properties.get(header);
+        if (value === undefined) continue;
+        const terms = splitAlternatives(value);
+        if (!terms) {
+          report(`${header}:${value} cannot be imported; only addresses and domains joined with OR are supported, so the filter matches more mail`);
+          continue;
+        }
+        const condition: AddressCondition = { type: 'address', header, entries: terms.map(fromGmailTerm) };
+        for (const term of condition.entries.filter((e) => e.mode === 'domain-contains')) {
+          report(`${header}:${term.value} was imported as "domain contains"; Gmail also matched it against names`);
+        }
+        children.push(condition);
+      }
+      const subject = properties.get('subject');
+      if (subject !== undefined) {
+        const terms = splitAlternatives(subject);
+        if (terms) {
+          children.push({ type: 'subject', matchType: 'contains', values: terms });
+        } else {
+          report(`subject:${subject} cannot be imported; only words or phrases joined with OR are supported, so the filter matches more mail`);
+        }
+      }
+      const words = properties.get('hasTheWord');
+      if (words !== undefined) {
+        const list = /^list:\(?"?([^"()\s]+)"?\)?$/.exec(words.trim());
+        if (list) {
+          children.push({ type: 'header', name: 'List-Id', matchType: 'contains', values: [list[1]] });
+        } else {
+          report(`Has the words "${words}" cannot be imported; only list:(...) is supported, so the filter matches more mail`);
+        }
+      }
+      if (properties.has('doesNotHaveTheWord')) {
+        report(`Doesn't have "${properties.get('doesNotHaveTheWord')}" cannot be imported, so the filter matches more mail`);
+      }
+      if (properties.has('hasAttachment') || properties.has('size')) {
+        report('Attachment and size conditions cannot be imported, so the filter matches more mail');
+      }
+
+      let name = `Gmail: ${criteria || 'all mail'}`.slice(0, 100);
+      for (let n = 2; takenNames.has(name.toLowerCase()); n++) {
+        name = `Gmail: ${criteria || 'all mail'}`.slice(0, 95) + ` (${n})`;
+      }
+      takenNames.add(name.toLowerCase());
+
+      const filter: CreateFilterData = {
+        name,
+        enabled: true,
+        conditions: children.length > 0 ? { type: 'allof', children } : null,
+        expirationDays: null,
+        flags: [],
+        addYearLabel: false,
+        dateLabel: null,
+        vacation: null,
+        targetFolder: '',
+        labels: [],
+        // Gmail applies every matching filter
+        stopProcessing: false,
+      };
+      filters.push(filter);
+      byCriteria.set(criteria, { filter, archivedLabels: [], archive: false });
+    }
+
+    const merged = byCriteria.get(criteria)!;
+    const { filter } = merged;
+    const label = properties.get('label');
+    const archive = properties.get('shouldArchive') === 'true';
+    if (label && archive) {
+      merged.archivedLabels.push(label);
+    } else if (label && !filter.labels.includes(label)) {
+      filter.labels.push(label);
+    }
+    merged.archive ||= archive;
+    if (properties.get('shouldMarkAsRead') === 'true' && !filter.flags.includes(SEEN_FLAG)) {
+      filter.flags.push(SEEN_FLAG);
+    }
+    if (properties.get('shouldStar') === 'true' && !filter.flags.includes(FLAGGED_FLAG)) {
+      filter.flags.push(FLAGGED_FLAG);
+    }
+    if (properties.get('shouldTrash') === 'true') {
+      filter.targetFolder = 'Trash';
+    }
+
+    const handled = new Set<string>([
+      ...CRITERIA,
+      ...SIZE_DEFAULTS,
+      'hasAttachment',
+      'size',
+      'label',
+      'shouldArchive',
+      'shouldMarkAsRead',
+      'shouldStar',
+      'shouldTrash',
+    ]);
+    for (const [property, value] of properties) {
+      if (!handled.has(property)) {
+        report(`${property}=${value} has no equivalent and was left out`);
+      }
+    }
+  }
+
+  // The first label whose mail skips the inbox becomes the folder
+  for (const { filter, archivedLabels, archive } of byCriteria.values()) {
+    if (filter.targetFolder) {
+      filter.labels.push(...archivedLabels.filter((l) => !filter.labels.includes(l)));
+    } else if (archivedLabels.length > 0) {
+      filter.targetFolder = archivedLabels[0];
+      filter.labels.push(...archivedLabels.slice(1).filter((l) => !filter.labels.includes(l)));
+    } else if (archive) {
+      filter.targetFolder = 'Archive';
+    }
+    filter.labels = filter.labels.filter((l) => l !== filter.targetFolder);
+  }
+
+  return { filters, issues };
+}
+
+// Quote a subject phrase the way Gmail's search box expects
+function quoteTerm(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function toGmailAddress(entry: AddressEntry): string | null {
+  switch (entry.mode) {
+    case 'exact':
+    case 'subdomains':
+      return entry.value;
+    case 'domain':
+      return `@${entry.value}`;
+    case 'localpart':
+      return `${entry.value}@`;
+    case 'wildcard':
+    case 'domain-contains':
+      return null;
+  }
+}
+
+// Map a filter's conditions onto Gmail criteria, or explain why they cannot be
+function toGmailCriteria(conditions: ConditionNode | null): Map<string, string> | string {
+  if (!conditions) {
+    return 'Gmail filters need at least one condition';
+  }
+  const criteria = new Map<string, string>();
+  const tests = conditions.type === 'allof' ? conditions.children : [conditions];
+  for (const test of tests) {
+    const property =
+      test.type === 'address' ? test.header : test.type === 'subject' ? 'subject' : test.type === 'header' ? 'hasTheWord' : null;
+    if (!property) {
+      return 'Gmail cannot combine conditions with any of or not';
+    }
+    if (criteria.has(property)) {
+      return `Gmail allows only one ${property} condition per filter`;
+    }
+    if (test.type === 'address') {
+      const terms = test.entries.map(toGmailAddress);
+      const unsupported = test.entries.filter((_, i) => terms[i] === null);
+      if (unsupported.length > 0) {
+        return `Gmail has no equivalent for ${unsupported.map((e) => `"${e.value}" (${e.mode})`).join(', ')}`;
+      }
+      criteria.set(property, terms.join(' OR '));
+    } else if (test.type === 'subject') {
+      if (test.matchType !== 'contains' || test.values.some((v) => v.includes('"'))) {
+        return 'Gmail can only match subjects that contain words without quotes';
+      }
+      criteria.set(property, test.values.map(quoteTerm).join(' OR '));
+    } else if (test.type === 'header') {
+      if (test.name.toLowerCase() !== 'list-id' || test.matchType !== 'contains' || test.values.length !== 1) {
+        return `Gmail cannot test the ${test.name} header`;
+      }
+      criteria.set(property, `list:(${test.values[0]})`);
+    }
+  }
+  return criteria;
+}
+
+// Write the enabled filters as Gmail's mailFilters.xml. A filter becomes one
+// entry per label, since Gmail applies one label per filter, and a folder
+// becomes a label with "skip the inbox".
+export function exportGmailFilters(allFilters: Filter[], generatedAt = new Date()): GmailExportResult {
+  const updated = generatedAt.toISOString().replace(/\.\d+Z$/, 'Z');
+  const issues: GmailExportIssue[] = [];
+  const entries: Map<string, string>[] = [];
+  let exported = 0;
+
+  for (const filter of allFilters.filter((f) => f.enabled)) {
+    const report = (message: string, skipped = false) =>
+      issues.push({ filterId: filter.id, filterName: filter.name, message, skipped });
+
+    const criteria = toGmailCriteria(filter.conditions);
+    if (typeof criteria === 'string') {
+      report(`${criteria}, so the filter was not exported`, true);
+      continue;
+    }
+
+    const actions = new Map<string, string>();
+    if (filter.flags.includes(SEEN_FLAG)) actions.set('shouldMarkAsRead', 'true');
+    if (filter.flags.includes(FLAGGED_FLAG)) actions.set('shouldStar', 'true');
+    const otherFlags = filter.flags.filter((f) => f !== SEEN_FLAG && f !== FLAGGED_FLAG);
+    if (otherFlags.length > 0) report(`Gmail has no custom flags; ${otherFlags.join(', ')} left out`);
+    if (filter.expirationDays !== null) report('Gmail cannot expire messages; the expiration was left out');
+    if (filter.vacation) report('Gmail auto-replies are not part of filters; the auto-reply was left out');
+    if (filter.addYearLabel || filter.dateLabel) report('Gmail cannot compute date labels; they were left out');
+
+    const labels = [...filter.labels];
+    const folder = filter.targetFolder;
+    let archivedLabel: string | null = null;
+    if (folder.toLowerCase() === 'archive') {
+      actions.set('shouldArchive', 'true');
+    } else if (folder.toLowerCase() === 'trash') {
+      actions.set('shouldTrash', 'true');
+    } else if (folder.toLowerCase() === 'spam') {
+      report('Gmail filters cannot send mail to Spam; the folder was left out');
+    } else if (folder && folder.toLowerCase() !== 'inbox') {
+      archivedLabel = folder;
+    }
+
+    const entryLabels: (string | null)[] = [...(archivedLabel ? [archivedLabel] : []), ...labels];
+    for (const label of entryLabels.length > 0 ? entryLabels : [null]) {
+      const entry = new Map([...criteria, ...actions]);
+      if (label) entry.set('label', label);
+      if (label && label === archivedLabel) entry.set('shouldArchive', 'true');
+      entries.push(entry);
+    }
+    exported++;
+  }
+
+  if (exported > 0) {
+    issues.push({
+      message: 'Gmail runs every matching filter, so filter order and "stop processing" do not carry over',
+      skipped: false,
+    });
+  }
+
+  const id = generatedAt.getTime();
+  const lines = [
+    "<?xml version='1.0' encoding='UTF-8'?>",
+    "<feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>",
+    '\t<title>Mail Filters</title>',
+    `\t<id>tag:mail.google.com,2008:filters:${entries.map((_, i) => id + i).join(',')}</id>`,
+    `\t<updated>${updated}</updated>`,
+  ];
+  entries.forEach((entry, index) => {
+    lines.push(
+      '\t<entry>',
+      "\t\t<category term='filter'></category>",
+      '\t\t<title>Mail Filter</title>',
+      `\t\t<id>tag:mail.google.com,2008:filter:${id + index}</id>`,
+      `\t\t<updated>${updated}</updated>`,
+      '\t\t<content></content>',
+      ...[...entry].map(([name, value]) => `\t\t<apps:property name='${name}' value='${encodeXml(value)}'/>`),
+      "\t\t<apps:property name='sizeOperator' value='s_sl'/>",
+      "\t\t<apps:property name='sizeUnit' value='s_smb'/>",
+      '\t</entry>'
+    );
+  });
+  lines.push('</feed>', '');
+
+  return { xml: lines.join('\n'), exported, issues };
+}
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import net, { AddressInfo } from 'net';
+import { listImapMailboxes, encodeMailboxName, decodeMailboxName, ImapError } from './imap';
+
+// Listen on a free port with the given connection handler while run() runs
+async function withServer(
+  onConnection: (socket: net.Socket) => void,
+  run: (port: number) => Promise<void>
+): Promise<void> {
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    onConnection(socket);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await run((server.address() as AddressInfo).port);
+  } finally {
+    // A half-closed connection would keep close() from ever finishing
+    sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+// Greet, accept any login and answer LIST with the given lines
+function fakeImapServer(listLines: string[]) {
+  return (socket: net.Socket) => {
+    socket.write('* OK test server ready\r\n');
+    let buffer = '';
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      let end;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const [tag, command] = buffer.slice(0, end).split(' ');
+        buffer = buffer.slice(end + 2);
+        switch (command.toUpperCase()) {
+          case 'CAPABILITY':
+            socket.write(`* CAPABILITY IMAP4rev1\r\n${tag} OK done\r\n`);
+            break;
+          case 'LIST':
+            socket.write(listLines.map((line) => `${line}\r\n`).join('') + `${tag} OK done\r\n`);
+            break;
+          case 'LOGOUT':
+            socket.end(`* BYE logging out\r\n${tag} OK done\r\n`);
+            break;
+          default:
+            socket.write(`${tag} OK done\r\n`);
+        }
+      }
+    });
+  };
+}
+
+function config(port: number) {
+  return { host: '127.0.0.1', port, username: 'alice', password: 'secret', tls: 'none' as const, tlsVerify: true };
+}
+
+test('mailbox names round-trip through modified UTF-7', () => {
+  for (const name of ['Inbox', 'Folders/Ärger', 'Labels/A&B', 'Labels/日本語 notes', '&']) {
+    assert.equal(decodeMailboxName(encodeMailboxName(name)), name);
+  }
+  assert.equal(encodeMailboxName('Ärger & Co'), '&AMQ-rger &- Co');
+});
+
+test('LIST responses are read into mailboxes, including literals', async () => {
+  await withServer(
+    fakeImapServer([
+      '* LIST (\\HasChildren) "/" "Folders"',
+      '* LIST (\\HasNoChildren) "/" "Folders/&AMQ-rger"',
+      '* LIST () NIL INBOX',
+      '* LIST () "/" {14}',
+      'Labels/a "b" c',
+    ]),
+    async (port) => {
+      const { mailboxes, unreadable } = await listImapMailboxes(config(port));
+      assert.deepEqual(unreadable, []);
+      assert.deepEqual(mailboxes, [
+        { name: 'Folders', delimiter: '/', flags: ['\\HasChildren'] },
+        { name: 'Folders/Ärger', delimiter: '/', flags: ['\\HasNoChildren'] },
+        { name: 'INBOX', delimiter: null, flags: [] },
+        { name: 'Labels/a "b" c', delimiter: '/', flags: [] },
+      ]);
+    }
+  );
+});
+
+test('LIST responses that cannot be read are returned apart', async () => {
+  await withServer(
+    fakeImapServer([
+      '* LIST (\\Noselect)',
+      '* LIST garbage "/" Folders',
+      '* LIST () "//" Folders',
+      '* LIST () "/" Folders extra',
+      '* LIST () "/" "Labels"',
+    ]),
+    async (port) => {
+      const { mailboxes, unreadable } = await listImapMailboxes(config(port));
+      assert.deepEqual(mailboxes, [{ name: 'Labels', delimiter: '/', flags: [] }]);
+      assert.equal(unreadable.length, 4);
+    }
+  );
+});
+
+test('a server that refuses the connection is an IMAP error', async () => {
+  await withServer(
+    (socket) => socket.end('* BYE too busy\r\n'),
+    async (port) => {
+      await assert.rejects(listImapMailboxes(config(port)), ImapError);
+    }
+  );
+});
@@ -0,0 +1,297 @@
+import net from 'net';
+import tls from 'tls';
+
+// Connection settings for one user's IMAP account, from config/imap-servers.json.
+// Aimed at Proton Bridge, which serves folders under "Folders/" and labels
+// under "Labels/".
+export interface ImapServerConfig {
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  // "starttls" upgrades the connection before logging in, "implicit" starts
+  // with TLS; "none" is only meant for a local test server
+  tls: 'starttls' | 'implicit' | 'none';
+  // Set to false to accept self-signed certificates, such as Bridge's
+  tlsVerify: boolean;
+}
+
+// A NO or BYE reply, or a connection that failed or timed out
+export class ImapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImapError';
+  }
+}
+
+export interface Mailbox {
+  // Decoded name, using the server's hierarchy delimiter
+  name: string;
+  delimiter: string | null;
+  flags: string[];
+}
+
+export interface MailboxList {
+  mailboxes: Mailbox[];
+  // LIST responses that are not "* LIST (flags) delimiter name", as received
+  unreadable: string[];
+}
+
+interface ImapResponse {
+  message: string;
+  // Untagged data before the status, each split into atoms and strings
+  lines: string[][];
+}
+
+const TIMEOUT_MS = 15000;
+
+// Mailbox names travel as modified UTF-7 (RFC 3501 section 5.1.3)
+export function encodeMailboxName(name: string): string {
+  return name.replace(/&/g, '&-').replace(/[^\x20-\x7e]+/g, (run) => {
+    const bytes = Buffer.alloc(run.length * 2);
+    for (let i = 0; i < run.length; i++) {
+      bytes.writeUInt16BE(run.charCodeAt(i), i * 2);
+    }
+    return `&${bytes.toString('base64').replace(/=+$/, '').replace(/\//g, ',')}-`;
+  });
+}
+
+export function decodeMailboxName(name: string): string {
+  return name.replace(/&([^-]*)-/g, (_, encoded: string) => {
+    if (encoded === '') return '&';
+    const bytes = Buffer.from(encoded.replace(/,/g, '/'), 'base64');
+    let decoded = '';
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      decoded += String.fromCharCode(bytes.readUInt16BE(i));
+    }
+    return decoded;
+  });
+}
+
+function quote(value: string): string {
+  if (/[\r\n\0]/.test(value)) {
+    throw new ImapError('Line breaks cannot be sent to the IMAP server');
+  }
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+// Minimal RFC 3501 client: one command at a time over a single connection
+export class ImapClient {
+  private socket: net.Socket | tls.TLSSocket | null = null;
+  private buffer = Buffer.alloc(0);
+  private waiting: (() => void) | null = null;
+  private failure: Error | null = null;
+  private capabilities = new Set<string>();
+  private nextTag = 1;
+
+  constructor(private readonly config: ImapServerConfig) {}
+
+  // Connect, upgrade to TLS if configured and log in
+  async connect(): Promise<void> {
+    const { host, port, tlsVerify } = this.config;
+    if (this.config.tls === 'implicit') {
+      this.attach(tls.connect({ host, port, servername: host, rejectUnauthorized: tlsVerify }));
+    } else {
+      this.attach(net.connect({ host, port }));
+    }
+    const greeting = await this.readItems();
+    if (greeting[0] !== '*' || greeting[1]?.toUpperCase() === 'BYE') {
+      throw new ImapError(`${host} refused the connection: ${greeting.slice(2).join(' ')}`);
+    }
+    await this.readCapabilities();
+
+    if (this.config.tls === 'starttls') {
+      if (!this.capabilities.has('STARTTLS')) {
+        throw new ImapError(`${host} does not offer STARTTLS`);
+      }
+      await this.command('STARTTLS');
+      this.attach(tls.connect({ socket: this.socket!, servername: host, rejectUnauthorized: tlsVerify }));
+      // Capabilities may change once TLS is up
+      await this.readCapabilities();
+    }
+
+    if (this.capabilities.has('LOGINDISABLED')) {
+      throw new ImapError(`${host} does not allow logging in without TLS`);
+    }
+    await this.command(`LOGIN ${quote(this.config.username)} ${quote(this.config.password)}`);
+  }
+
+  // Lines that cannot be read are returned apart rather than read as mailboxes
+  async listMailboxes(): Promise<MailboxList> {
+    const response = await this.command('LIST "" "*"');
+    const mailboxes: Mailbox[] = [];
+    const unreadable: string[] = [];
+    for (const items of response.lines) {
+      if (items[0] !== '*' || items[1]?.toUpperCase() !== 'LIST') continue;
+      const [, , flags, delimiter, name] = items;
+      const nil = delimiter?.toUpperCase() === 'NIL';
+      if (
+        items.length !== 5 ||
+        !/^\(.*\)$/.test(flags) ||
+        (!nil && delimiter.length !== 1) ||
+        name === ''
+      ) {
+        unreadable.push(items.join(' '));
+        continue;
+      }
+      mailboxes.push({
+        name: decodeMailboxName(name),
+        delimiter: nil ? null : delimiter,
+        flags: flags.slice(1, -1).split(/\s+/).filter((f) => f !== ''),
+      });
+    }
+    return { mailboxes, unreadable };
+  }
+
+  async createMailbox(name: string): Promise<void> {
+    await this.command(`CREATE ${quote(encodeMailboxName(name))}`);
+  }
+
+  // Log out politely, then close the connection whatever the server says
+  async close(): Promise<void> {
+    if (!this.socket) return;
+    try {
+      if (!this.failure) {
+        await this.command('LOGOUT');
+      }
+    } catch {
+      // The connection is going away anyway
+    } finally {
+      this.socket?.destroy();
+      this.socket = null;
+    }
+  }
+
+  private attach(socket: net.Socket | tls.TLSSocket): void {
+    // STARTTLS wraps the plain socket, so bytes now arrive on the TLS one
+    this.socket?.removeAllListeners('data').removeAllListeners('timeout').setTimeout(0);
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    socket.setTimeout(TIMEOUT_MS);
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.wake();
+    });
+    socket.on('timeout', () => this.fail(new ImapError(`${this.config.host} did not answer in time`)));
+    socket.on('error', (error) => this.fail(new ImapError(`Cannot reach ${this.config.host}: ${error.message}`)));
+    socket.on('close', () => this.fail(new ImapError(`${this.config.host} closed the connection`)));
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.();
+  }
+
+  private async waitForData(): Promise<void> {
+    if (this.failure) throw this.failure;
+    await new Promise<void>((resolve) => {
+      this.waiting = resolve;
+    });
+    if (this.failure && this.buffer.length === 0) throw this.failure;
+  }
+
+  private async readLine(): Promise<string> {
+    for (;;) {
+      const end = this.buffer.indexOf('\r\n');
+      if (end !== -1) {
+        const line = this.buffer.subarray(0, end).toString('utf-8');
+        this.buffer = this.buffer.subarray(end + 2);
+        return line;
+      }
+      await this.waitForData();
+    }
+  }
+
+  private async readBytes(length: number): Promise<string> {
+    while (this.buffer.length < length) {
+      await this.waitForData();
+    }
+    const value = this.buffer.subarray(0, length).toString('utf-8');
+    this.buffer = this.buffer.subarray(length);
+    return value;
+  }
+
+  // Read one response line into atoms, strings and parenthesized lists,
+  // following literals ({n} then n bytes) onto the lines after them
+  private async readItems(): Promise<string[]> {
+    const items: string[] = [];
+    let line = await this.readLine();
+    for (;;) {
+      const literal = /\{(\d+)\}$/.exec(line);
+      const rest = literal ? line.slice(0, literal.index) : line;
+      const pattern = /"((?:[^"\\]|\\.)*)"|(\([^)]*\))|(\[[^\]]*\])|([^\s"()[\]]+)/g;
+      let match;
+      while ((match = pattern.exec(rest)) !== null) {
+        if (match[1] !== undefined) {
+          items.push(match[1].replace(/\\(.)/g, '$1'));
+        } else {
+          items.push(match[2] ?? match[3] ?? match[4]);
+        }
+      }
+      if (!literal) return items;
+      items.push(await this.readBytes(parseInt(literal[1], 10)));
+      line = await this.readLine();
+    }
+  }
+
+  private async readCapabilities(): Promise<void> {
+    const response = await this.command('CAPABILITY');
+    const line = response.lines.find((items) => items[1]?.toUpperCase() === 'CAPABILITY') ?? [];
+    this.capabilities = new Set(line.slice(2).map((c) => c.toUpperCase()));
+  }
+
+  private async command(line: string): Promise<ImapResponse> {
+    if (!this.socket || this.failure) {
+      throw this.failure ?? new ImapError('Not connected');
+    }
+    const tag = `A${this.nextTag++}`;
+    this.socket.write(`${tag} ${line}\r\n`);
+    const lines: string[][] = [];
+    for (;;) {
+      const items = await this.readItems();
+      if (items[0] === tag) {
+        const status = items[1]?.toUpperCase();
+        const message = items.slice(2).join(' ');
+        if (status !== 'OK') {
+          const command = line.split(' ')[0];
+          throw new ImapError(`${this.config.host}: ${message || `${command} was refused`}`);
+        }
+        return { message, lines };
+      }
+      if (items[0] === '*' && items[1]?.toUpperCase() === 'BYE' && line !== 'LOGOUT') {
+        throw new ImapError(`${this.config.host} closed the session: ${items.slice(2).join(' ')}`);
+      }
+      lines.push(items);
+    }
+  }
+}
+
+// List every mailbox in the account
+export async function listImapMailboxes(config: ImapServerConfig): Promise<MailboxList> {
+  const client = new ImapClient(config);
+  try {
+    await client.connect();
+    return await client.listMailboxes();
+  } finally {
+    await client.close();
+  }
+}
+
+// Create mailboxes in the order given, so parents come before their children
+export async function createImapMailboxes(config: ImapServerConfig, names: string[]): Promise<void> {
+  const client = new ImapClient(config);
+  try {
+    await client.connect();
+    for (const name of names) {
+      await client.createMailbox(name);
+    }
+  } finally {
+    await client.close();
+  }
+}
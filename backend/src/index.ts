@@ -1,6 +1,62 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
-import { readFilters, writeFilters, generateId, Filter, Database, VALID_DATABASES } from './storage';
+import crypto from 'crypto';
+import {
+  readFilters,
+  writeFilters,
+  generateId,
+  nextPriority,
+  Filter,
+  CreateFilterData,
+  FilterSettings,
+  ConditionNode,
+  AddressEntry,
+  AddressMatchMode,
+  VacationAction,
+  Database,
+  VALID_DATABASES,
+  readSieveServer,
+  readImapServer,
+  readRegistry,
+  writeRegistry,
+  lockDatabase,
+  StorageError,
+  Registry,
+  BulkEdit,
+} from './storage';
+import { deploySieveScript, listSieveScripts, ManageSieveError } from './manageSieve';
+import { listImapMailboxes, createImapMailboxes, ImapError } from './imap';
+import { compareMailboxes, getMailboxesToCreate } from './mailboxSync';
+import {
+  buildRegistry,
+  describeRegistry,
+  findNameConflict,
+  registerNames,
+  addFolder,
+  addLabel,
+  setLabelColor,
+  renameFolder,
+  renameLabel,
+  deleteFolder,
+  deleteLabel,
+  RegistryError,
+  RegistryChange,
+} from './registry';
+import { importSieveScript } from './sieveParser';
+import { importGmailFilters, exportGmailFilters, GmailFormatError } from './gmailFilters';
+import { exportThunderbirdFilters } from './thunderbirdFilters';
+import { validateBulkEdit, applyBulkEdit } from './bulkEdit';
+import { SieveSyntaxError } from '../../shared/sieveSyntax';
+import { validateSieveScript } from '../../shared/sieveValidator';
+import {
+  generateSieveScript,
+  generateCombinedSieveScript,
+  getScriptBody,
+  SieveScriptOptions,
+} from '../../shared/generateSieveScript';
+import { DATE_LABEL_TOKENS, getDateLabelTokens } from '../../shared/dateLabels';
+import { findFilterOverlaps } from '../../shared/filterOverlaps';
+import { lookupAddress } from '../../shared/addressLookup';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -8,6 +64,38 @@ const PORT = process.env.PORT || 3001;
 app.use(cors());
 app.use(express.json());
 
+// Requests that change a database run one at a time, so one request's read,
+// change and write cannot interleave with another's. Reads do not wait, since
+// writes replace whole files at once.
+async function lockDatabaseForChanges(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const db = req.query.db;
+  if (req.method === 'GET' || typeof db !== 'string' || !VALID_DATABASES.includes(db)) {
+    next();
+    return;
+  }
+  // Listen before waiting: a client that goes away while queued fires
+  // "close" before the lock is ours, and "finish" never comes after that
+  let closed = false;
+  let release: (() => void) | null = null;
+  const done = () => {
+    closed = true;
+    if (!release) return;
+    const held = release;
+    release = null;
+    held();
+  };
+  res.on('finish', done);
+  res.on('close', done);
+  release = await lockDatabase(db);
+  if (closed || res.destroyed) {
+    done();
+    return;
+  }
+  next();
+}
+
+app.use(lockDatabaseForChanges);
+
 function getDatabase(req: Request, res: Response): Database | null {
   const db = req.query.db as string;
   if (!db || !VALID_DATABASES.includes(db as Database)) {
@@ -17,58 +105,223 @@ function getDatabase(req: Request, res: Response): Database | null {
   return db as Database;
 }
 
-// Get the leaf name of a folder path (e.g., "Work/Projects" -> "Projects")
-function getFolderLeafName(folderPath: string): string {
-  if (!folderPath) return '';
-  const parts = folderPath.split('/');
-  return parts[parts.length - 1];
+// Storage errors explain what is wrong with a data file; anything else gets
+// the generic message
+function getServerErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof StorageError ? error.message : fallback;
 }
 
-// Validate that folder name doesn't conflict with labels (Proton Mail limitation)
-// This includes system-wide checks across all filters
-function validateFolderLabelConflict(
-  targetFolder: string,
-  labels: string[],
-  allFilters: Filter[],
-  excludeId?: string
-): string | null {
-  const otherFilters = allFilters.filter((f) => f.id !== excludeId);
-  const existingFolderLeafs = otherFilters
-    .map((f) => getFolderLeafName(f.targetFolder))
-    .filter((name) => name !== '');
-  const existingLabels = otherFilters.flatMap((f) => f.labels);
+// ?generatedAt= pins the script's timestamp (ISO 8601) so output is reproducible
+function getScriptOptions(req: Request, res: Response): SieveScriptOptions | null {
+  const value = req.query.generatedAt;
+  if (value === undefined) return {};
+  const generatedAt = typeof value === 'string' ? new Date(value) : null;
+  if (!generatedAt || isNaN(generatedAt.getTime())) {
+    res.status(400).json({ error: 'generatedAt must be an ISO 8601 date' });
+    return null;
+  }
+  return { generatedAt };
+}
 
-  const folderLeaf = getFolderLeafName(targetFolder).toLowerCase();
+// Folder and label names must not clash with each other or with anything in
+// the registry (a Proton Mail limitation)
+function validateFolderLabelConflict(targetFolder: string, labels: string[], registry: Registry): string | null {
+  return findNameConflict(registry, targetFolder ? [targetFolder] : [], labels);
+}
 
-  // Check 1: Current folder conflicts with existing labels from other filters
-  if (folderLeaf) {
-    const conflictingLabel = existingLabels.find((l) => l.toLowerCase() === folderLeaf);
-    if (conflictingLabel) {
-      return `Folder name "${getFolderLeafName(targetFolder)}" conflicts with label "${conflictingLabel}" used by another filter. Proton Mail does not allow folders and labels to share the same name.`;
-    }
+// Record a saved filter's folder and labels in the registry. The first save
+// also stores the registry that was seeded from the filters.
+async function saveRegisteredNames(
+  db: Database,
+  stored: Registry | null,
+  registry: Registry,
+  filter: FilterSettings
+): Promise<void> {
+  if (registerNames(registry, filter.targetFolder, filter.labels) || !stored) {
+    await writeRegistry(db, registry);
   }
+}
 
-  // Check 2: Current labels conflict with existing folder leaf names from other filters
-  for (const label of labels) {
-    const conflictingFolder = existingFolderLeafs.find(
-      (f) => f.toLowerCase() === label.toLowerCase()
-    );
-    if (conflictingFolder) {
-      return `Label "${label}" conflicts with folder name "${conflictingFolder}" used by another filter. Proton Mail does not allow folders and labels to share the same name.`;
-    }
+const ADDRESS_MATCH_MODES: AddressMatchMode[] = ['exact', 'domain', 'subdomains', 'localpart', 'wildcard', 'domain-contains'];
+
+// Check that an address entry's value makes sense for its match mode
+function validateAddressEntry(entry: AddressEntry, label: string): string | null {
+  if (!entry || typeof entry.value !== 'string' || !entry.value.trim()) {
+    return `${label} conditions cannot contain empty entries.`;
+  }
+  if (!ADDRESS_MATCH_MODES.includes(entry.mode)) {
+    return `Unsupported match mode "${entry.mode}" for ${label} entry "${entry.value}". Must be one of: ${ADDRESS_MATCH_MODES.join(', ')}.`;
   }
+  const hasAt = entry.value.includes('@');
+  const hasWildcard = /[*?]/.test(entry.value);
+  switch (entry.mode) {
+    case 'exact':
+      if (!hasAt || hasWildcard) {
+        return `${label} entry "${entry.value}" must be a full email address to match exactly.`;
+      }
+      return null;
+    case 'domain':
+    case 'subdomains':
+    case 'domain-contains':
+      if (hasAt || hasWildcard) {
+        return `${label} entry "${entry.value}" must be a domain without "@" or wildcards.`;
+      }
+      return null;
+    case 'localpart':
+      if (hasAt || hasWildcard) {
+        return `${label} entry "${entry.value}" must be the part before "@" without wildcards.`;
+      }
+      return null;
+    case 'wildcard':
+      return null;
+  }
+}
 
-  // Check 3: Current folder conflicts with current labels (within same filter)
-  if (folderLeaf && labels.length > 0) {
-    const conflictingLabel = labels.find((label) => label.toLowerCase() === folderLeaf);
-    if (conflictingLabel) {
-      return `Folder name "${getFolderLeafName(targetFolder)}" conflicts with label "${conflictingLabel}". Proton Mail does not allow folders and labels to share the same name.`;
+// Validate the shape of a condition tree sent by the client
+function validateConditions(node: ConditionNode | null | undefined): string | null {
+  if (node === null || node === undefined) return null;
+  switch (node.type) {
+    case 'address': {
+      if (node.header !== 'from' && node.header !== 'to') {
+        return `Unsupported address header "${node.header}". Must be "from" or "to".`;
+      }
+      const label = node.header === 'from' ? 'From' : 'To';
+      if (!Array.isArray(node.entries) || node.entries.length === 0) {
+        return `A ${label} condition needs at least one address or domain.`;
+      }
+      for (const entry of node.entries) {
+        const error = validateAddressEntry(entry, label);
+        if (error) return error;
+      }
+      return null;
     }
+    case 'subject':
+    case 'header': {
+      // RFC 5322 field names are printable ASCII without a colon
+      if (node.type === 'header' && (typeof node.name !== 'string' || !/^[\x21-\x39\x3b-\x7e]+$/.test(node.name))) {
+        return `Invalid header name "${node.name}". Header names cannot be empty or contain spaces or colons.`;
+      }
+      const label = node.type === 'subject' ? 'Subject' : node.name;
+      if (!['contains', 'is', 'matches'].includes(node.matchType)) {
+        return `Unsupported match type "${node.matchType}" for ${label}. Must be one of: contains, is, matches.`;
+      }
+      if (!Array.isArray(node.values) || node.values.length === 0) {
+        return `A ${label} condition needs at least one value.`;
+      }
+      if (node.values.some((v) => typeof v !== 'string' || !v.trim())) {
+        return `${label} conditions cannot contain empty entries.`;
+      }
+      return null;
+    }
+    case 'allof':
+    case 'anyof':
+      if (!Array.isArray(node.children)) {
+        return `Condition group "${node.type}" must have a children array.`;
+      }
+      for (const child of node.children) {
+        const error = validateConditions(child);
+        if (error) return error;
+      }
+      return null;
+    case 'not':
+      if (!node.child) {
+        return 'A "not" condition must wrap another condition.';
+      }
+      return validateConditions(node.child);
+    default:
+      return `Unknown condition type "${(node as { type: string }).type}".`;
   }
+}
 
+// A date label must use at least one token, and cannot contain characters
+// that would break the Sieve string or variable it becomes
+function validateDateLabel(dateLabel: string | null | undefined): string | null {
+  if (dateLabel === null || dateLabel === undefined || dateLabel === '') return null;
+  if (typeof dateLabel !== 'string') {
+    return 'Date label must be a string.';
+  }
+  if (getDateLabelTokens(dateLabel).length === 0) {
+    return `Date label "${dateLabel}" must contain at least one of: ${Object.keys(DATE_LABEL_TOKENS).join(', ')}, set apart from other letters and digits.`;
+  }
+  if (/["\\$]/.test(dateLabel)) {
+    return `Date label "${dateLabel}" cannot contain quotes, backslashes or "$".`;
+  }
   return null;
 }
 
+// Expiration is a whole number of days, or null for none
+function validateExpiration(expirationDays: number | null | undefined): string | null {
+  if (expirationDays === null || expirationDays === undefined) return null;
+  if (!Number.isInteger(expirationDays) || expirationDays < 1) {
+    return 'Expiration must be a whole number of days, at least 1.';
+  }
+  return null;
+}
+
+// An auto-reply must have a body; the other settings are optional
+function validateVacation(vacation: VacationAction | null | undefined): string | null {
+  if (vacation === null || vacation === undefined) return null;
+  if (typeof vacation.body !== 'string' || !vacation.body.trim()) {
+    return 'The auto-reply body cannot be empty.';
+  }
+  if (typeof vacation.subject !== 'string') {
+    return 'The auto-reply subject must be a string.';
+  }
+  if (vacation.days !== null && (!Number.isInteger(vacation.days) || vacation.days < 1)) {
+    return 'The auto-reply interval must be a whole number of days, at least 1.';
+  }
+  if (!Array.isArray(vacation.addresses) || vacation.addresses.some((a) => typeof a !== 'string' || !a.includes('@'))) {
+    return 'Auto-reply addresses must be full email addresses.';
+  }
+  return null;
+}
+
+// System flags are the RFC 3501 ones; keywords are IMAP atoms
+const SYSTEM_FLAGS = ['\\Seen', '\\Answered', '\\Flagged', '\\Deleted', '\\Draft'];
+
+function validateFlags(flags: string[] | undefined): string | null {
+  if (flags === undefined) return null;
+  if (!Array.isArray(flags)) {
+    return 'Flags must be an array.';
+  }
+  for (const flag of flags) {
+    if (typeof flag !== 'string' || !flag) {
+      return 'Flags cannot be empty.';
+    }
+    if (flag.startsWith('\\')) {
+      if (!SYSTEM_FLAGS.includes(flag)) {
+        return `Unknown system flag "${flag}". Must be one of: ${SYSTEM_FLAGS.join(', ')}.`;
+      }
+    } else if (!/^[\x21-\x7e]+$/.test(flag) || /[(){%*"\\\]]/.test(flag)) {
+      return `Invalid flag "${flag}". Keywords cannot contain spaces or any of: ( ) { % * " \\ ].`;
+    }
+  }
+  return null;
+}
+
+// The filter setting each part of a generated script comes from
+const SIEVE_COMMAND_FIELDS: Record<string, string> = {
+  address: 'conditions',
+  header: 'conditions',
+  exists: 'conditions',
+  expire: 'expirationDays',
+  addflag: 'flags',
+  vacation: 'vacation',
+  currentdate: 'dateLabel',
+  set: 'dateLabel',
+};
+
+// Generate the filter's script and check it, naming the field behind the first problem
+function validateSieveOutput(filter: FilterSettings): string | null {
+  const [issue] = validateSieveScript(generateSieveScript(filter));
+  if (!issue) return null;
+  let field = issue.command ? SIEVE_COMMAND_FIELDS[issue.command] : 'name';
+  if (issue.command === 'fileinto') {
+    field = issue.value !== undefined && filter.labels.includes(issue.value) ? 'labels' : 'targetFolder';
+  }
+  return `The ${field ?? 'filter'} field would produce an invalid Sieve script: ${issue.message}.`;
+}
+
 // Validate that filter name is unique (Proton Mail limitation)
 function validateUniqueName(name: string, filters: Filter[], excludeId?: string): string | null {
   const trimmedName = name.trim().toLowerCase();
@@ -81,6 +334,45 @@ function validateUniqueName(name: string, filters: Filter[], excludeId?: string)
   return null;
 }
 
+// Validate each imported filter against existing filters and the ones before
+// it, and give the new filters ids and priorities after the existing ones.
+// Their folders and labels are added to registry as they go.
+function prepareImportedFilters(
+  imported: CreateFilterData[],
+  filters: Filter[],
+  registry: Registry
+): { created: Filter[]; errors: { filterIndex: number; error: string }[] } {
+  const pending = [...filters];
+  const created: Filter[] = [];
+  const errors: { filterIndex: number; error: string }[] = [];
+  imported.forEach((data, filterIndex) => {
+    const error =
+      validateConditions(data.conditions) ||
+      validateDateLabel(data.dateLabel) ||
+      validateExpiration(data.expirationDays) ||
+      validateVacation(data.vacation) ||
+      validateFlags(data.flags) ||
+      validateFolderLabelConflict(data.targetFolder, data.labels, registry) ||
+      validateUniqueName(data.name, pending) ||
+      validateSieveOutput(data);
+    if (error) {
+      errors.push({ filterIndex, error });
+    } else {
+      registerNames(registry, data.targetFolder, data.labels);
+    }
+    const newFilter: Filter = {
+      id: generateId(),
+      ...data,
+      priority: nextPriority(pending),
+      updatedAt: new Date().toISOString(),
+      deployment: null,
+    };
+    pending.push(newFilter);
+    created.push(newFilter);
+  });
+  return { created, errors };
+}
+
 app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
@@ -93,6 +385,241 @@ app.get('/api/users', (_req, res) => {
   res.json({ users: VALID_DATABASES });
 });
 
+// Whether the user has a ManageSieve server to deploy to; never returns the password
+app.get('/api/managesieve', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const server = await readSieveServer(db);
+    if (!server) {
+      res.json({ configured: false });
+      return;
+    }
+    const { host, port, username, tls, scriptName } = server;
+    res.json({ configured: true, host, port, username, tls, scriptName });
+  } catch (error) {
+    console.error('Error reading ManageSieve settings:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to read ManageSieve settings') });
+  }
+});
+
+app.get('/api/managesieve/scripts', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const server = await readSieveServer(db);
+    if (!server) {
+      res.status(400).json({ error: `No ManageSieve server is configured for ${db}` });
+      return;
+    }
+    res.json({ scripts: await listSieveScripts(server) });
+  } catch (error) {
+    if (error instanceof ManageSieveError) {
+      res.status(502).json({ error: error.message });
+      return;
+    }
+    console.error('Error listing Sieve scripts:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to list Sieve scripts') });
+  }
+});
+
+// Upload the combined script for a user and make it the active one
+app.post('/api/managesieve/deploy', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const server = await readSieveServer(db);
+    if (!server) {
+      res.status(400).json({ error: `No ManageSieve server is configured for ${db}` });
+      return;
+    }
+    const script = generateCombinedSieveScript(await readFilters(db), db);
+    const [issue] = validateSieveScript(script);
+    if (issue) {
+      res.status(400).json({ error: `The combined script is invalid at line ${issue.line}: ${issue.message}` });
+      return;
+    }
+    const { warnings, scripts } = await deploySieveScript(server, script);
+    res.json({ scriptName: server.scriptName, warnings, scripts, deployedAt: new Date().toISOString() });
+  } catch (error) {
+    if (error instanceof ManageSieveError) {
+      res.status(502).json({ error: error.message });
+      return;
+    }
+    console.error('Error deploying Sieve script:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to deploy Sieve script') });
+  }
+});
+
+// Whether the user has an IMAP account to check folders against; never returns the password
+app.get('/api/imap', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const server = await readImapServer(db);
+    if (!server) {
+      res.json({ configured: false });
+      return;
+    }
+    const { host, port, username, tls } = server;
+    res.json({ configured: true, host, port, username, tls });
+  } catch (error) {
+    console.error('Error reading IMAP settings:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to read IMAP settings') });
+  }
+});
+
+// Compare the folders and labels the filters use with the account's mailboxes
+app.get('/api/imap/mailboxes', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const server = await readImapServer(db);
+    if (!server) {
+      res.status(400).json({ error: `No IMAP account is configured for ${db}` });
+      return;
+    }
+    const filters = await readFilters(db);
+    res.json(compareMailboxes(filters, await listImapMailboxes(server)));
+  } catch (error) {
+    if (error instanceof ImapError) {
+      res.status(502).json({ error: error.message });
+      return;
+    }
+    console.error('Error checking IMAP mailboxes:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to check IMAP mailboxes') });
+  }
+});
+
+// Create every missing folder and label, then report again
+app.post('/api/imap/mailboxes', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const server = await readImapServer(db);
+    if (!server) {
+      res.status(400).json({ error: `No IMAP account is configured for ${db}` });
+      return;
+    }
+    const filters = await readFilters(db);
+    const list = await listImapMailboxes(server);
+    const created = getMailboxesToCreate(compareMailboxes(filters, list), list.mailboxes);
+    await createImapMailboxes(server, created);
+    res.json({ created, report: compareMailboxes(filters, await listImapMailboxes(server)) });
+  } catch (error) {
+    if (error instanceof ImapError) {
+      res.status(502).json({ error: error.message });
+      return;
+    }
+    console.error('Error creating IMAP mailboxes:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to create IMAP mailboxes') });
+  }
+});
+
+app.get('/api/registry', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const filters = await readFilters(db);
+    res.json(describeRegistry(buildRegistry(await readRegistry(db), filters), filters));
+  } catch (error) {
+    console.error('Error reading folders and labels:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to read folders and labels') });
+  }
+});
+
+// Apply a change to the registry, then save it along with any filters the
+// change updated. Answers with the registry and the updated filters.
+async function changeRegistry(
+  req: Request,
+  res: Response,
+  change: (registry: Registry, filters: Filter[]) => Registry | RegistryChange
+): Promise<void> {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const filters = await readFilters(db);
+    const result = change(buildRegistry(await readRegistry(db), filters), filters);
+    const { registry, changed } = 'changed' in result ? result : { registry: result, changed: [] };
+    for (const filter of changed) {
+      const sieveError = validateSieveOutput(filter);
+      if (sieveError) {
+        res.status(400).json({ error: `${filter.name}: ${sieveError}` });
+        return;
+      }
+    }
+    const updated = filters.map((f) => changed.find((c) => c.id === f.id) ?? f);
+    if (changed.length > 0) {
+      await writeFilters(db, updated);
+    }
+    await writeRegistry(db, registry);
+    res.json({ registry: describeRegistry(registry, updated), filters: changed });
+  } catch (error) {
+    if (error instanceof RegistryError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Error updating folders and labels:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to update folders and labels') });
+  }
+}
+
+app.post('/api/registry/folders', (req, res) =>
+  changeRegistry(req, res, (registry) => addFolder(registry, req.body.path))
+);
+
+app.post('/api/registry/labels', (req, res) =>
+  changeRegistry(req, res, (registry) => addLabel(registry, req.body.name, req.body.color))
+);
+
+app.put('/api/registry/labels/color', (req, res) =>
+  changeRegistry(req, res, (registry) => setLabelColor(registry, req.body.name, req.body.color))
+);
+
+// Renaming onto an existing entry merges the two when merge is true
+app.put('/api/registry/folders/rename', (req, res) =>
+  changeRegistry(req, res, (registry, filters) =>
+    renameFolder(registry, filters, req.body.from, req.body.to, req.body.merge === true)
+  )
+);
+
+app.put('/api/registry/labels/rename', (req, res) =>
+  changeRegistry(req, res, (registry, filters) =>
+    renameLabel(registry, filters, req.body.from, req.body.to, req.body.merge === true)
+  )
+);
+
+app.delete('/api/registry/folders', (req, res) =>
+  changeRegistry(req, res, (registry, filters) => deleteFolder(registry, filters, req.body.path))
+);
+
+app.delete('/api/registry/labels', (req, res) =>
+  changeRegistry(req, res, (registry, filters) => deleteLabel(registry, filters, req.body.name))
+);
+
+// Which filters mail from an address, and optionally to a recipient, would
+// run, and where it would end up
+app.get('/api/lookup', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  const { address, recipient } = req.query;
+  if (typeof address !== 'string' || !address.includes('@')) {
+    res.status(400).json({ error: 'address must be an email address' });
+    return;
+  }
+  if (recipient !== undefined && (typeof recipient !== 'string' || (recipient !== '' && !recipient.includes('@')))) {
+    res.status(400).json({ error: 'recipient must be an email address' });
+    return;
+  }
+  try {
+    const filters = await readFilters(db);
+    res.json(lookupAddress(filters, address, recipient || null));
+  } catch (error) {
+    console.error('Error looking up address:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to look up address') });
+  }
+});
+
 app.get('/api/filters', async (req, res) => {
   const db = getDatabase(req, res);
   if (!db) return;
@@ -101,7 +628,7 @@ app.get('/api/filters', async (req, res) => {
     res.json(filters);
   } catch (error) {
     console.error('Error reading filters:', error);
-    res.status(500).json({ error: 'Failed to read filters' });
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to read filters') });
   }
 });
 
@@ -110,7 +637,34 @@ app.post('/api/filters', async (req, res) => {
   if (!db) return;
   try {
     const filters = await readFilters(db);
-    const conflictError = validateFolderLabelConflict(req.body.targetFolder, req.body.labels || [], filters);
+    const conditionsError = validateConditions(req.body.conditions);
+    if (conditionsError) {
+      res.status(400).json({ error: conditionsError });
+      return;
+    }
+    const dateLabelError = validateDateLabel(req.body.dateLabel);
+    if (dateLabelError) {
+      res.status(400).json({ error: dateLabelError });
+      return;
+    }
+    const expirationError = validateExpiration(req.body.expirationDays);
+    if (expirationError) {
+      res.status(400).json({ error: expirationError });
+      return;
+    }
+    const vacationError = validateVacation(req.body.vacation);
+    if (vacationError) {
+      res.status(400).json({ error: vacationError });
+      return;
+    }
+    const flagsError = validateFlags(req.body.flags);
+    if (flagsError) {
+      res.status(400).json({ error: flagsError });
+      return;
+    }
+    const stored = await readRegistry(db);
+    const registry = buildRegistry(stored, filters);
+    const conflictError = validateFolderLabelConflict(req.body.targetFolder, req.body.labels || [], registry);
     if (conflictError) {
       res.status(400).json({ error: conflictError });
       return;
@@ -123,21 +677,326 @@ app.post('/api/filters', async (req, res) => {
     const newFilter: Filter = {
       id: generateId(),
       name: req.body.name,
-      fromAddresses: req.body.fromAddresses,
-      toAddress: req.body.toAddress,
-      expirationDays: req.body.expirationDays,
-      markRead: req.body.markRead,
+      enabled: req.body.enabled ?? true,
+      conditions: req.body.conditions ?? null,
+      expirationDays: req.body.expirationDays ?? null,
+      flags: req.body.flags ?? [],
       addYearLabel: req.body.addYearLabel,
+      dateLabel: req.body.dateLabel || null,
+      vacation: req.body.vacation ?? null,
       targetFolder: req.body.targetFolder,
       labels: req.body.labels,
+      stopProcessing: req.body.stopProcessing ?? true,
+      priority: nextPriority(filters),
       updatedAt: new Date().toISOString(),
+      deployment: null,
     };
+    const sieveError = validateSieveOutput(newFilter);
+    if (sieveError) {
+      res.status(400).json({ error: sieveError });
+      return;
+    }
     filters.push(newFilter);
     await writeFilters(db, filters);
+    await saveRegisteredNames(db, stored, registry, newFilter);
     res.status(201).json(newFilter);
   } catch (error) {
     console.error('Error creating filter:', error);
-    res.status(500).json({ error: 'Failed to create filter' });
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to create filter') });
+  }
+});
+
+// Registered before /api/filters/:id so "sieve" is not taken as an id
+app.get('/api/filters/sieve', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  const options = getScriptOptions(req, res);
+  if (!options) return;
+  try {
+    const filters = await readFilters(db);
+    res.type('text/plain').send(generateCombinedSieveScript(filters, db, options));
+  } catch (error) {
+    console.error('Error generating Sieve script:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to generate Sieve script') });
+  }
+});
+
+// Pairs of filters that can match the same sender or recipient and then
+// disagree on what to do with the mail
+app.get('/api/filters/overlaps', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const filters = await readFilters(db);
+    res.json(findFilterOverlaps(filters));
+  } catch (error) {
+    console.error('Error finding overlapping filters:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to find overlapping filters') });
+  }
+});
+
+app.post('/api/filters/import/sieve', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  const { script, dryRun } = req.body as { script: string; dryRun?: boolean };
+  if (typeof script !== 'string' || !script.trim()) {
+    res.status(400).json({ error: 'script is required' });
+    return;
+  }
+  try {
+    const filters = await readFilters(db);
+    // Folders and labels only in the registry count as known too
+    const registry = buildRegistry(await readRegistry(db), filters);
+    let result;
+    try {
+      result = importSieveScript(script, {
+        knownFolders: registry.folders.map((f) => f.path),
+        knownLabels: registry.labels.map((l) => l.name),
+      });
+    } catch (error) {
+      if (error instanceof SieveSyntaxError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    const { created, errors } = prepareImportedFilters(result.filters, filters, registry);
+    if (dryRun) {
+      res.json({ filters: result.filters, issues: result.issues, errors });
+      return;
+    }
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors[0].error, errors });
+      return;
+    }
+    if (created.length === 0) {
+      res.status(400).json({ error: 'The script does not contain any filters' });
+      return;
+    }
+    await writeFilters(db, [...filters, ...created]);
+    await writeRegistry(db, registry);
+    res.status(201).json({ created, issues: result.issues });
+  } catch (error) {
+    console.error('Error importing Sieve script:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to import Sieve script') });
+  }
+});
+
+app.post('/api/filters/import/gmail', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  const { xml, dryRun } = req.body as { xml: string; dryRun?: boolean };
+  if (typeof xml !== 'string' || !xml.trim()) {
+    res.status(400).json({ error: 'xml is required' });
+    return;
+  }
+  try {
+    const filters = await readFilters(db);
+    let result;
+    try {
+      result = importGmailFilters(xml, { existingNames: filters.map((f) => f.name) });
+    } catch (error) {
+      if (error instanceof GmailFormatError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    const registry = buildRegistry(await readRegistry(db), filters);
+    const { created, errors } = prepareImportedFilters(result.filters, filters, registry);
+    if (dryRun) {
+      res.json({ filters: result.filters, issues: result.issues, errors });
+      return;
+    }
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors[0].error, errors });
+      return;
+    }
+    if (created.length === 0) {
+      res.status(400).json({ error: 'The file does not contain any filters' });
+      return;
+    }
+    await writeFilters(db, [...filters, ...created]);
+    await writeRegistry(db, registry);
+    res.status(201).json({ created, issues: result.issues });
+  } catch (error) {
+    console.error('Error importing Gmail filters:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to import Gmail filters') });
+  }
+});
+
+// The XML comes back with a report of everything Gmail cannot express
+app.get('/api/filters/export/gmail', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const filters = await readFilters(db);
+    res.json(exportGmailFilters(filters));
+  } catch (error) {
+    console.error('Error exporting Gmail filters:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to export Gmail filters') });
+  }
+});
+
+// account is the folder URI of the Bridge account in Thunderbird, which
+// move-to-folder actions point into
+app.get('/api/filters/export/thunderbird', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  const account = req.query.account;
+  if (typeof account !== 'string' || !/^(imap|mailbox):\/\/[^/]+\/?$/.test(account)) {
+    res.status(400).json({ error: 'account must be a folder URI such as imap://user%40proton.me@127.0.0.1' });
+    return;
+  }
+  try {
+    const filters = await readFilters(db);
+    res.json(exportThunderbirdFilters(filters, { account }));
+  } catch (error) {
+    console.error('Error exporting Thunderbird filters:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to export Thunderbird filters') });
+  }
+});
+
+// Set the priority of every filter from the order of ids; the list must
+// contain each filter exactly once. Registered before /api/filters/:id.
+app.put('/api/filters/order', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const { ids } = req.body as { ids: string[] };
+    if (!Array.isArray(ids)) {
+      res.status(400).json({ error: 'ids array is required' });
+      return;
+    }
+    const filters = await readFilters(db);
+    const byId = new Map(filters.map((f) => [f.id, f]));
+    if (ids.length !== filters.length || new Set(ids).size !== ids.length || ids.some((id) => !byId.has(id))) {
+      res.status(400).json({ error: 'ids must list every filter in this database exactly once' });
+      return;
+    }
+    const reordered = ids.map((id, priority) => ({ ...byId.get(id)!, priority }));
+    await writeFilters(db, reordered);
+    res.json(reordered);
+  } catch (error) {
+    console.error('Error reordering filters:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to reorder filters') });
+  }
+});
+
+// Enable or disable several filters at once
+app.put('/api/filters/enabled', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const { ids, enabled } = req.body as { ids: string[]; enabled: boolean };
+    if (!Array.isArray(ids) || ids.length === 0) {
+      res.status(400).json({ error: 'ids array is required' });
+      return;
+    }
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({ error: 'enabled must be true or false' });
+      return;
+    }
+    const filters = await readFilters(db);
+    const idsSet = new Set(ids);
+    const updatedAt = new Date().toISOString();
+    const updated = filters.map((f) => (idsSet.has(f.id) && f.enabled !== enabled ? { ...f, enabled, updatedAt } : f));
+    await writeFilters(db, updated);
+    res.json(updated.filter((f) => idsSet.has(f.id)));
+  } catch (error) {
+    console.error('Error updating filters:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to update filters') });
+  }
+});
+
+// Make the same changes to several filters. Every edited filter is checked
+// before anything is saved, so either all of them change or none do.
+app.patch('/api/filters', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const { ids, changes } = req.body as { ids: string[]; changes: BulkEdit };
+    if (!Array.isArray(ids) || ids.length === 0) {
+      res.status(400).json({ error: 'ids array is required' });
+      return;
+    }
+    const editError = validateBulkEdit(changes);
+    if (editError) {
+      res.status(400).json({ error: editError });
+      return;
+    }
+    const filters = await readFilters(db);
+    const idsSet = new Set(ids);
+    if (filters.filter((f) => idsSet.has(f.id)).length !== idsSet.size) {
+      res.status(404).json({ error: 'Filter not found' });
+      return;
+    }
+    const stored = await readRegistry(db);
+    const registry = buildRegistry(stored, filters);
+    const updatedAt = new Date().toISOString();
+    const updated = filters.map((f) => (idsSet.has(f.id) ? applyBulkEdit(f, changes, updatedAt) : f));
+    const edited = updated.filter((f) => idsSet.has(f.id));
+    for (const filter of edited) {
+      const error =
+        validateFolderLabelConflict(filter.targetFolder, filter.labels, registry) ?? validateSieveOutput(filter);
+      if (error) {
+        res.status(400).json({ error: `${filter.name}: ${error}` });
+        return;
+      }
+    }
+    await writeFilters(db, updated);
+    const added = edited.filter((f) => registerNames(registry, f.targetFolder, f.labels));
+    if (added.length > 0 || !stored) {
+      await writeRegistry(db, registry);
+    }
+    res.json(edited);
+  } catch (error) {
+    console.error('Error editing filters:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to edit filters') });
+  }
+});
+
+app.get('/api/filters/:id/sieve', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  const options = getScriptOptions(req, res);
+  if (!options) return;
+  try {
+    const filters = await readFilters(db);
+    const filter = filters.find((f) => f.id === req.params.id);
+    if (!filter) {
+      res.status(404).json({ error: 'Filter not found' });
+      return;
+    }
+    res.type('text/plain').send(generateSieveScript(filter, options));
+  } catch (error) {
+    console.error('Error generating Sieve script:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to generate Sieve script') });
+  }
+});
+
+// Record the filter's current script as the one now deployed in Proton Mail
+app.post('/api/filters/:id/deployed', async (req, res) => {
+  const db = getDatabase(req, res);
+  if (!db) return;
+  try {
+    const filters = await readFilters(db);
+    const index = filters.findIndex((f) => f.id === req.params.id);
+    if (index === -1) {
+      res.status(404).json({ error: 'Filter not found' });
+      return;
+    }
+    const deployedAt = new Date();
+    const script = generateSieveScript(filters[index], { generatedAt: deployedAt });
+    const hash = crypto.createHash('sha256').update(getScriptBody(script)).digest('hex');
+    filters[index] = { ...filters[index], deployment: { hash, deployedAt: deployedAt.toISOString(), script } };
+    await writeFilters(db, filters);
+    res.json(filters[index]);
+  } catch (error) {
+    console.error('Error marking filter as deployed:', error);
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to mark filter as deployed') });
   }
 });
 
@@ -154,7 +1013,7 @@ app.get('/api/filters/:id', async (req, res) => {
     res.json(filter);
   } catch (error) {
     console.error('Error reading filter:', error);
-    res.status(500).json({ error: 'Failed to read filter' });
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to read filter') });
   }
 });
 
@@ -168,7 +1027,34 @@ app.put('/api/filters/:id', async (req, res) => {
       res.status(404).json({ error: 'Filter not found' });
       return;
     }
-    const conflictError = validateFolderLabelConflict(req.body.targetFolder, req.body.labels || [], filters, req.params.id);
+    const conditionsError = validateConditions(req.body.conditions);
+    if (conditionsError) {
+      res.status(400).json({ error: conditionsError });
+      return;
+    }
+    const dateLabelError = validateDateLabel(req.body.dateLabel);
+    if (dateLabelError) {
+      res.status(400).json({ error: dateLabelError });
+      return;
+    }
+    const expirationError = validateExpiration(req.body.expirationDays);
+    if (expirationError) {
+      res.status(400).json({ error: expirationError });
+      return;
+    }
+    const vacationError = validateVacation(req.body.vacation);
+    if (vacationError) {
+      res.status(400).json({ error: vacationError });
+      return;
+    }
+    const flagsError = validateFlags(req.body.flags);
+    if (flagsError) {
+      res.status(400).json({ error: flagsError });
+      return;
+    }
+    const stored = await readRegistry(db);
+    const registry = buildRegistry(stored, filters);
+    const conflictError = validateFolderLabelConflict(req.body.targetFolder, req.body.labels || [], registry);
     if (conflictError) {
       res.status(400).json({ error: conflictError });
       return;
@@ -181,21 +1067,34 @@ app.put('/api/filters/:id', async (req, res) => {
     const updatedFilter: Filter = {
       id: req.params.id,
       name: req.body.name,
-      fromAddresses: req.body.fromAddresses,
-      toAddress: req.body.toAddress,
-      expirationDays: req.body.expirationDays,
-      markRead: req.body.markRead,
+      enabled: req.body.enabled ?? true,
+      conditions: req.body.conditions ?? null,
+      expirationDays: req.body.expirationDays ?? null,
+      flags: req.body.flags ?? [],
       addYearLabel: req.body.addYearLabel,
+      dateLabel: req.body.dateLabel || null,
+      vacation: req.body.vacation ?? null,
       targetFolder: req.body.targetFolder,
       labels: req.body.labels,
+      stopProcessing: req.body.stopProcessing ?? true,
+      // Priority only changes through the order endpoint
+      priority: filters[index].priority,
       updatedAt: new Date().toISOString(),
+      // Edits leave the deployed script alone so the two can be compared
+      deployment: filters[index].deployment,
     };
+    const sieveError = validateSieveOutput(updatedFilter);
+    if (sieveError) {
+      res.status(400).json({ error: sieveError });
+      return;
+    }
     filters[index] = updatedFilter;
     await writeFilters(db, filters);
+    await saveRegisteredNames(db, stored, registry, updatedFilter);
     res.json(updatedFilter);
   } catch (error) {
     console.error('Error updating filter:', error);
-    res.status(500).json({ error: 'Failed to update filter' });
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to update filter') });
   }
 });
 
@@ -216,7 +1115,7 @@ app.delete('/api/filters', async (req, res) => {
     res.json({ deleted: deletedCount });
   } catch (error) {
     console.error('Error deleting filters:', error);
-    res.status(500).json({ error: 'Failed to delete filters' });
+    res.status(500).json({ error: getServerErrorMessage(error, 'Failed to delete filters') });
   }
 });
 
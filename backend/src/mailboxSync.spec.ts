@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareMailboxes, getMailboxesToCreate } from './mailboxSync';
+import { Filter } from './storage';
+import { Mailbox } from './imap';
+
+function makeFilter(name: string, targetFolder: string, labels: string[]): Filter {
+  return {
+    id: name,
+    name,
+    enabled: true,
+    conditions: null,
+    expirationDays: null,
+    flags: [],
+    addYearLabel: false,
+    dateLabel: null,
+    vacation: null,
+    targetFolder,
+    labels,
+    stopProcessing: true,
+    priority: 0,
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    deployment: null,
+  };
+}
+
+function mailbox(name: string, delimiter: string | null = '.'): Mailbox {
+  return { name, delimiter, flags: [] };
+}
+
+test('missing folders are created parents first, labels as one mailbox each', () => {
+  const filters = [makeFilter('Acme', 'Work/Clients/Acme', ['v1.2', 'Urgent']), makeFilter('Spam', 'Spam', [])];
+  const mailboxes = [mailbox('INBOX', null), mailbox('Folders'), mailbox('Folders.Work'), mailbox('Labels.Urgent')];
+  const report = compareMailboxes(filters, { mailboxes, unreadable: [] });
+
+  assert.equal(report.delimiter, '.');
+  assert.deepEqual(
+    report.missingFolders.map((f) => f.mailbox),
+    ['Folders.Work.Clients.Acme']
+  );
+  assert.deepEqual(
+    report.missingLabels.map((l) => l.mailbox),
+    ['Labels.v1.2']
+  );
+  assert.deepEqual(getMailboxesToCreate(report, mailboxes), [
+    'Folders.Work.Clients',
+    'Folders.Work.Clients.Acme',
+    'Labels',
+    'Labels.v1.2',
+  ]);
+});
+
+test('unused folders and labels are listed, and unreadable lines passed on', () => {
+  const filters = [makeFilter('Acme', 'Work/Acme', ['Urgent'])];
+  const mailboxes = [
+    mailbox('Folders/Work', '/'),
+    mailbox('Folders/Work/Acme', '/'),
+    mailbox('Folders/Old', '/'),
+    mailbox('Labels/Urgent', '/'),
+    mailbox('Labels/Later', '/'),
+  ];
+  const report = compareMailboxes(filters, { mailboxes, unreadable: ['* LIST garbage'] });
+  assert.deepEqual(report.unusedFolders, ['Old']);
+  assert.deepEqual(report.unusedLabels, ['Later']);
+  assert.deepEqual(report.unreadable, ['* LIST garbage']);
+});
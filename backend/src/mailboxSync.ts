@@ -0,0 +1,105 @@
+import { Filter } from './storage';
+import type { Mailbox, MailboxList } from './imap';
+
+// Where Proton Bridge puts user folders and labels
+const FOLDERS_ROOT = 'Folders';
+const LABELS_ROOT = 'Labels';
+
+// Proton's own folders, which Bridge serves at the top level
+const SYSTEM_FOLDERS = ['inbox', 'archive', 'spam', 'trash', 'sent', 'drafts', 'starred', 'all mail'];
+
+// A folder or label some filters file into, and the mailbox Bridge would show it as
+export interface MailboxReference {
+  name: string;
+  mailbox: string;
+  filters: string[];
+}
+
+export interface MailboxSyncReport {
+  delimiter: string;
+  missingFolders: MailboxReference[];
+  missingLabels: MailboxReference[];
+  // Folders and labels in the account that no filter files into
+  unusedFolders: string[];
+  unusedLabels: string[];
+  // LIST responses from the server that could not be read, as received
+  unreadable: string[];
+}
+
+function collectReferences(
+  filters: Filter[],
+  namesOf: (filter: Filter) => string[],
+  toMailbox: (name: string) => string
+): MailboxReference[] {
+  const references = new Map<string, MailboxReference>();
+  for (const filter of filters) {
+    for (const name of namesOf(filter)) {
+      const reference = references.get(name) ?? { name, mailbox: toMailbox(name), filters: [] };
+      reference.filters.push(filter.name);
+      references.set(name, reference);
+    }
+  }
+  return [...references.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Compare the folders and labels the filters use with the account's
+// mailboxes. Date labels are left out, since their names change over time.
+export function compareMailboxes(filters: Filter[], { mailboxes, unreadable }: MailboxList): MailboxSyncReport {
+  const delimiter = mailboxes.find((m) => m.delimiter !== null)?.delimiter ?? '/';
+  const existing = new Set(mailboxes.map((m) => m.name));
+  const folderPrefix = `${FOLDERS_ROOT}${delimiter}`;
+  const labelPrefix = `${LABELS_ROOT}${delimiter}`;
+
+  const folders = collectReferences(
+    filters,
+    (f) => (f.targetFolder && !SYSTEM_FOLDERS.includes(f.targetFolder.toLowerCase()) ? [f.targetFolder] : []),
+    (name) => folderPrefix + name.split('/').join(delimiter)
+  );
+  const labels = collectReferences(filters, (f) => f.labels, (name) => labelPrefix + name);
+
+  // A folder is in use when a filter files into it or into a folder under it
+  const usedFolders = folders.map((f) => f.mailbox);
+  const unusedFolders = mailboxes
+    .filter((m) => m.name.startsWith(folderPrefix))
+    .filter((m) => !usedFolders.some((used) => used === m.name || used.startsWith(m.name + delimiter)))
+    .map((m) => m.name.slice(folderPrefix.length).split(delimiter).join('/'));
+  const usedLabels = new Set(labels.map((l) => l.mailbox));
+  const unusedLabels = mailboxes
+    .filter((m) => m.name.startsWith(labelPrefix) && !usedLabels.has(m.name))
+    .map((m) => m.name.slice(labelPrefix.length));
+
+  return {
+    delimiter,
+    missingFolders: folders.filter((f) => !existing.has(f.mailbox)),
+    missingLabels: labels.filter((l) => !existing.has(l.mailbox)),
+    unusedFolders: unusedFolders.sort(),
+    unusedLabels: unusedLabels.sort(),
+    unreadable,
+  };
+}
+
+// Mailboxes to create for everything missing, parents before children.
+// Folders nest on "/", which becomes the server's delimiter; labels are flat,
+// so a label with the delimiter in its name, such as "v1.2" on a server
+// that uses ".", is created as one mailbox.
+export function getMailboxesToCreate(report: MailboxSyncReport, mailboxes: Mailbox[]): string[] {
+  const existing = new Set(mailboxes.map((m) => m.name));
+  const toCreate: string[] = [];
+  const add = (name: string) => {
+    if (!existing.has(name)) {
+      existing.add(name);
+      toCreate.push(name);
+    }
+  };
+  for (const { name } of report.missingFolders) {
+    const parts = [FOLDERS_ROOT, ...name.split('/')];
+    for (let i = 1; i <= parts.length; i++) {
+      add(parts.slice(0, i).join(report.delimiter));
+    }
+  }
+  for (const { mailbox } of report.missingLabels) {
+    add(LABELS_ROOT);
+    add(mailbox);
+  }
+  return toCreate;
+}
@@ -0,0 +1,295 @@
+import net from 'net';
+import tls from 'tls';
+import { parseSieve } from '../../shared/sieveSyntax';
+
+// Connection settings for one user's ManageSieve server, from config/sieve-servers.json
+export interface SieveServerConfig {
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  // "starttls" upgrades the connection before logging in; "none" is only
+  // meant for a local test server
+  tls: 'starttls' | 'none';
+  // Set to false to accept self-signed certificates
+  tlsVerify: boolean;
+  // Name the combined script is uploaded under and activated as
+  scriptName: string;
+}
+
+// A NO or BYE reply, or a connection that failed or timed out
+export class ManageSieveError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = 'ManageSieveError';
+  }
+}
+
+type Status = 'OK' | 'NO' | 'BYE';
+
+interface SieveResponse {
+  status: Status;
+  // Response code such as WARNINGS or QUOTA/MAXSIZE, without parentheses
+  code?: string;
+  message: string;
+  // Data lines before the status, each split into atoms and strings
+  lines: string[][];
+}
+
+export interface SieveScriptInfo {
+  name: string;
+  active: boolean;
+}
+
+const TIMEOUT_MS = 15000;
+
+// Quoted strings cannot hold CR or LF, so anything longer goes as a
+// non-synchronizing literal (RFC 5804 section 4)
+function encodeString(value: string): string {
+  if (/^[^\r\n"\\]{0,1000}$/.test(value)) {
+    return `"${value}"`;
+  }
+  return `{${Buffer.byteLength(value, 'utf-8')}+}\r\n${value}`;
+}
+
+// Minimal RFC 5804 client: one command at a time over a single connection
+export class ManageSieveClient {
+  private socket: net.Socket | tls.TLSSocket | null = null;
+  private buffer = Buffer.alloc(0);
+  private waiting: (() => void) | null = null;
+  private failure: Error | null = null;
+  private capabilities = new Map<string, string>();
+
+  constructor(private readonly config: SieveServerConfig) {}
+
+  // Connect, upgrade to TLS if configured and log in with SASL PLAIN
+  async connect(): Promise<void> {
+    this.attach(net.connect({ host: this.config.host, port: this.config.port }));
+    this.readCapabilities(await this.readResponse());
+
+    if (this.config.tls === 'starttls') {
+      if (!this.capabilities.has('STARTTLS')) {
+        throw new ManageSieveError(`${this.config.host} does not offer STARTTLS`);
+      }
+      await this.command('STARTTLS');
+      this.attach(
+        tls.connect({
+          socket: this.socket!,
+          servername: this.config.host,
+          rejectUnauthorized: this.config.tlsVerify,
+        })
+      );
+      // The server repeats its capabilities once TLS is up
+      this.readCapabilities(await this.readResponse());
+    }
+
+    const mechanisms = (this.capabilities.get('SASL') ?? '').toUpperCase().split(/\s+/);
+    if (!mechanisms.includes('PLAIN')) {
+      throw new ManageSieveError(`${this.config.host} does not offer PLAIN authentication`);
+    }
+    const credentials = Buffer.from(`\0${this.config.username}\0${this.config.password}`, 'utf-8').toString('base64');
+    await this.command(`AUTHENTICATE "PLAIN" "${credentials}"`);
+  }
+
+  // CHECKSCRIPT came with protocol version 1.0; older servers do not advertise VERSION
+  get canCheckScripts(): boolean {
+    return this.capabilities.has('VERSION');
+  }
+
+  // Sieve extensions the server supports, from the SIEVE capability
+  get extensions(): string[] {
+    return (this.capabilities.get('SIEVE') ?? '').toLowerCase().split(/\s+/).filter((e) => e !== '');
+  }
+
+  async listScripts(): Promise<SieveScriptInfo[]> {
+    const response = await this.command('LISTSCRIPTS');
+    return response.lines.map(([name, flag]) => ({ name, active: flag?.toUpperCase() === 'ACTIVE' }));
+  }
+
+  // Ask the server to compile a script without storing it. Resolves to any
+  // warnings; errors reject with the server's explanation.
+  async checkScript(script: string): Promise<string | null> {
+    const response = await this.command(`CHECKSCRIPT ${encodeString(script)}`);
+    return response.code?.toUpperCase() === 'WARNINGS' ? response.message : null;
+  }
+
+  async putScript(name: string, script: string): Promise<void> {
+    await this.command(`PUTSCRIPT ${encodeString(name)} ${encodeString(script)}`);
+  }
+
+  async setActive(name: string): Promise<void> {
+    await this.command(`SETACTIVE ${encodeString(name)}`);
+  }
+
+  // Log out politely, then close the connection whatever the server says
+  async close(): Promise<void> {
+    if (!this.socket) return;
+    try {
+      if (!this.failure) {
+        await this.command('LOGOUT');
+      }
+    } catch {
+      // The connection is going away anyway
+    } finally {
+      this.socket?.destroy();
+      this.socket = null;
+    }
+  }
+
+  private attach(socket: net.Socket | tls.TLSSocket): void {
+    // STARTTLS wraps the plain socket, so bytes now arrive on the TLS one
+    this.socket?.removeAllListeners('data').removeAllListeners('timeout').setTimeout(0);
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    socket.setTimeout(TIMEOUT_MS);
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.wake();
+    });
+    socket.on('timeout', () => this.fail(new ManageSieveError(`${this.config.host} did not answer in time`)));
+    socket.on('error', (error) => this.fail(new ManageSieveError(`Cannot reach ${this.config.host}: ${error.message}`)));
+    socket.on('close', () => this.fail(new ManageSieveError(`${this.config.host} closed the connection`)));
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.();
+  }
+
+  private async waitForData(): Promise<void> {
+    if (this.failure) throw this.failure;
+    await new Promise<void>((resolve) => {
+      this.waiting = resolve;
+    });
+    if (this.failure && this.buffer.length === 0) throw this.failure;
+  }
+
+  private async readLine(): Promise<string> {
+    for (;;) {
+      const end = this.buffer.indexOf('\r\n');
+      if (end !== -1) {
+        const line = this.buffer.subarray(0, end).toString('utf-8');
+        this.buffer = this.buffer.subarray(end + 2);
+        return line;
+      }
+      await this.waitForData();
+    }
+  }
+
+  private async readBytes(length: number): Promise<string> {
+    while (this.buffer.length < length) {
+      await this.waitForData();
+    }
+    const value = this.buffer.subarray(0, length).toString('utf-8');
+    this.buffer = this.buffer.subarray(length);
+    return value;
+  }
+
+  // Read one response line into atoms and strings, following literals
+  // ({n} then n bytes) onto the lines after them
+  private async readItems(): Promise<string[]> {
+    const items: string[] = [];
+    let line = await this.readLine();
+    for (;;) {
+      const literal = /\{(\d+)\+?\}$/.exec(line);
+      const rest = literal ? line.slice(0, literal.index) : line;
+      const pattern = /"((?:[^"\\]|\\.)*)"|\(([^)]*)\)|([^\s"()]+)/g;
+      let match;
+      while ((match = pattern.exec(rest)) !== null) {
+        if (match[1] !== undefined) {
+          items.push(match[1].replace(/\\(.)/g, '$1'));
+        } else if (match[2] !== undefined) {
+          items.push(`(${match[2]})`);
+        } else {
+          items.push(match[3]);
+        }
+      }
+      if (!literal) return items;
+      items.push(await this.readBytes(parseInt(literal[1], 10)));
+      line = await this.readLine();
+    }
+  }
+
+  private async readResponse(): Promise<SieveResponse> {
+    const lines: string[][] = [];
+    for (;;) {
+      const items = await this.readItems();
+      const status = items[0]?.toUpperCase();
+      if (status === 'OK' || status === 'NO' || status === 'BYE') {
+        const hasCode = items[1]?.startsWith('(') ?? false;
+        return {
+          status,
+          code: hasCode ? items[1].slice(1, -1) : undefined,
+          message: items[hasCode ? 2 : 1] ?? '',
+          lines,
+        };
+      }
+      lines.push(items);
+    }
+  }
+
+  private readCapabilities(response: SieveResponse): void {
+    this.expectOk(response, 'connect');
+    this.capabilities = new Map(response.lines.map(([name, value]) => [name.toUpperCase(), value ?? '']));
+  }
+
+  private expectOk(response: SieveResponse, command: string): void {
+    if (response.status !== 'OK') {
+      const reason = response.message || `${command} was refused`;
+      throw new ManageSieveError(`${this.config.host}: ${reason}`, response.code);
+    }
+  }
+
+  private async command(line: string): Promise<SieveResponse> {
+    if (!this.socket || this.failure) {
+      throw this.failure ?? new ManageSieveError('Not connected');
+    }
+    this.socket.write(`${line}\r\n`);
+    const response = await this.readResponse();
+    this.expectOk(response, line.split(' ')[0]);
+    return response;
+  }
+}
+
+// Check, upload and activate a script, then list what the server now has.
+// Extensions the server does not support are reported before anything is sent.
+export async function deploySieveScript(
+  config: SieveServerConfig,
+  script: string
+): Promise<{ warnings: string | null; scripts: SieveScriptInfo[] }> {
+  const requires = parseSieve(script)
+    .commands.filter((c) => c.name === 'require')
+    .flatMap((c) => c.args.flatMap((a) => (a.type === 'strings' ? a.values : [])));
+  const client = new ManageSieveClient(config);
+  try {
+    await client.connect();
+    const unsupported = requires.filter((r) => !client.extensions.includes(r.toLowerCase()));
+    if (unsupported.length > 0) {
+      throw new ManageSieveError(`${config.host} does not support the Sieve extensions: ${unsupported.join(', ')}`);
+    }
+    const warnings = client.canCheckScripts ? await client.checkScript(script) : null;
+    await client.putScript(config.scriptName, script);
+    await client.setActive(config.scriptName);
+    const scripts = await client.listScripts();
+    return { warnings, scripts };
+  } finally {
+    await client.close();
+  }
+}
+
+// List the scripts stored for the user, marking the active one
+export async function listSieveScripts(config: SieveServerConfig): Promise<SieveScriptInfo[]> {
+  const client = new ManageSieveClient(config);
+  try {
+    await client.connect();
+    return await client.listScripts();
+  } finally {
+    await client.close();
+  }
+}
@@ -0,0 +1,329 @@
+import { Filter, Registry } from './storage';
+
+// Proton's own folders, which are never registered or renamed
+const SYSTEM_FOLDERS = ['inbox', 'archive', 'spam', 'trash', 'sent', 'drafts', 'starred', 'all mail'];
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// A request the registry cannot carry out; status is the HTTP status to answer with
+export class RegistryError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'RegistryError';
+  }
+}
+
+// A registry entry with the number of filters that use it
+export interface RegistryView {
+  folders: { path: string; filterCount: number }[];
+  labels: { name: string; color: string | null; filterCount: number }[];
+}
+
+// The result of a change that may have updated filters along with the registry
+export interface RegistryChange {
+  registry: Registry;
+  changed: Filter[];
+}
+
+// Get the leaf name of a folder path (e.g., "Work/Projects" -> "Projects")
+export function getFolderLeafName(folderPath: string): string {
+  if (!folderPath) return '';
+  const parts = folderPath.split('/');
+  return parts[parts.length - 1];
+}
+
+export function isSystemFolder(folderPath: string): boolean {
+  return SYSTEM_FOLDERS.includes(folderPath.toLowerCase());
+}
+
+// A folder and each of its parents, outermost first ("A/B" -> "A", "A/B")
+function withParents(folderPath: string): string[] {
+  const parts = folderPath.split('/');
+  return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+}
+
+function isInFolder(folderPath: string, parent: string): boolean {
+  return folderPath === parent || folderPath.startsWith(`${parent}/`);
+}
+
+function copyRegistry(registry: Registry): Registry {
+  return {
+    folders: registry.folders.map((f) => ({ ...f })),
+    labels: registry.labels.map((l) => ({ ...l })),
+  };
+}
+
+function sortRegistry(registry: Registry): Registry {
+  registry.folders.sort((a, b) => a.path.localeCompare(b.path));
+  registry.labels.sort((a, b) => a.name.localeCompare(b.name));
+  return registry;
+}
+
+// Add a filter's folder (with its parents) and labels if they are new.
+// Returns whether anything was added.
+export function registerNames(registry: Registry, targetFolder: string, labels: string[]): boolean {
+  let added = false;
+  if (targetFolder && !isSystemFolder(targetFolder)) {
+    for (const folderPath of withParents(targetFolder)) {
+      if (!registry.folders.some((f) => f.path === folderPath)) {
+        registry.folders.push({ path: folderPath });
+        added = true;
+      }
+    }
+  }
+  for (const name of labels) {
+    if (!registry.labels.some((l) => l.name === name)) {
+      registry.labels.push({ name, color: null });
+      added = true;
+    }
+  }
+  if (added) sortRegistry(registry);
+  return added;
+}
+
+// The stored registry plus anything the filters use that it is missing.
+// Before the registry is first saved, this seeds it from the filters.
+export function buildRegistry(stored: Registry | null, filters: Filter[]): Registry {
+  const registry = stored ? copyRegistry(stored) : { folders: [], labels: [] };
+  for (const filter of filters) {
+    registerNames(registry, filter.targetFolder, filter.labels);
+  }
+  return sortRegistry(registry);
+}
+
+export function describeRegistry(registry: Registry, filters: Filter[]): RegistryView {
+  return {
+    folders: registry.folders.map(({ path }) => ({
+      path,
+      filterCount: filters.filter((f) => isInFolder(f.targetFolder, path)).length,
+    })),
+    labels: registry.labels.map(({ name, color }) => ({
+      name,
+      color,
+      filterCount: filters.filter((f) => f.labels.includes(name)).length,
+    })),
+  };
+}
+
+// Proton Mail does not allow a folder and a label to share a name. Check the
+// given folders (and their parents) and labels against each other and against
+// everything already in the registry.
+export function findNameConflict(registry: Registry, folders: string[], labels: string[]): string | null {
+  const newFolders = folders.filter((f) => f && !isSystemFolder(f)).flatMap(withParents);
+  const allLabels = [...registry.labels.map((l) => l.name), ...labels];
+  const allFolders = [...registry.folders.map((f) => f.path), ...newFolders];
+
+  for (const folderPath of newFolders) {
+    const leaf = getFolderLeafName(folderPath);
+    const label = allLabels.find((l) => l.toLowerCase() === leaf.toLowerCase());
+    if (label) {
+      return `Folder name "${leaf}" conflicts with label "${label}". Proton Mail does not allow folders and labels to share the same name.`;
+    }
+  }
+  for (const label of labels) {
+    const folderPath = allFolders.find((f) => getFolderLeafName(f).toLowerCase() === label.toLowerCase());
+    if (folderPath) {
+      return `Label "${label}" conflicts with folder name "${getFolderLeafName(folderPath)}". Proton Mail does not allow folders and labels to share the same name.`;
+    }
+  }
+  return null;
+}
+
+// Why a folder path cannot be used, or null if it can
+export function getFolderPathError(folderPath: unknown): string | null {
+  if (typeof folderPath !== 'string' || !folderPath.trim()) {
+    return 'Folder path is required';
+  }
+  if (/[\0-\x1f]/.test(folderPath)) {
+    return 'Folder path cannot contain control characters';
+  }
+  if (folderPath.split('/').some((part) => part.trim() === '' || part !== part.trim())) {
+    return `Folder path "${folderPath}" has an empty part or spaces around a "/"`;
+  }
+  return null;
+}
+
+// Why a label name cannot be used, or null if it can
+export function getLabelNameError(name: unknown): string | null {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Label name is required';
+  }
+  if (/[\0-\x1f]/.test(name)) {
+    return 'Label name cannot contain control characters';
+  }
+  if (name !== name.trim()) {
+    return 'Label name cannot start or end with spaces';
+  }
+  return null;
+}
+
+function validateFolderPath(folderPath: unknown): string {
+  const error = getFolderPathError(folderPath);
+  if (error) throw new RegistryError(error);
+  if (isSystemFolder(folderPath as string)) {
+    throw new RegistryError(`"${folderPath}" is a system folder`);
+  }
+  return folderPath as string;
+}
+
+function validateLabelName(name: unknown): string {
+  const error = getLabelNameError(name);
+  if (error) throw new RegistryError(error);
+  return name as string;
+}
+
+function validateColor(color: unknown): string | null {
+  if (color === null || color === undefined) return null;
+  if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+    throw new RegistryError('Colour must be a hex colour such as "#8080FF"');
+  }
+  return color.toUpperCase();
+}
+
+function stamp(filter: Filter, changes: Partial<Filter>): Filter {
+  return { ...filter, ...changes, updatedAt: new Date().toISOString() };
+}
+
+export function addFolder(registry: Registry, folderPath: unknown): Registry {
+  const valid = validateFolderPath(folderPath);
+  if (registry.folders.some((f) => f.path === valid)) {
+    throw new RegistryError(`Folder "${valid}" already exists`);
+  }
+  const conflict = findNameConflict(registry, [valid], []);
+  if (conflict) throw new RegistryError(conflict);
+  const updated = copyRegistry(registry);
+  registerNames(updated, valid, []);
+  return updated;
+}
+
+export function addLabel(registry: Registry, name: unknown, color: unknown): Registry {
+  const valid = validateLabelName(name);
+  if (registry.labels.some((l) => l.name === valid)) {
+    throw new RegistryError(`Label "${valid}" already exists`);
+  }
+  const conflict = findNameConflict(registry, [], [valid]);
+  if (conflict) throw new RegistryError(conflict);
+  const updated = copyRegistry(registry);
+  updated.labels.push({ name: valid, color: validateColor(color) });
+  return sortRegistry(updated);
+}
+
+export function setLabelColor(registry: Registry, name: unknown, color: unknown): Registry {
+  const updated = copyRegistry(registry);
+  const label = updated.labels.find((l) => l.name === name);
+  if (!label) throw new RegistryError('Label not found', 404);
+  label.color = validateColor(color);
+  return updated;
+}
+
+// Rename a folder and the folders under it, moving every filter that files
+// into them. Renaming onto an existing folder merges the two, which must be
+// asked for with merge.
+export function renameFolder(
+  registry: Registry,
+  filters: Filter[],
+  from: unknown,
+  to: unknown,
+  merge: boolean
+): RegistryChange {
+  if (typeof from !== 'string' || !registry.folders.some((f) => f.path === from)) {
+    throw new RegistryError('Folder not found', 404);
+  }
+  const target = validateFolderPath(to);
+  if (target === from) {
+    throw new RegistryError('The new path is the same as the old one');
+  }
+  if (isInFolder(target, from)) {
+    throw new RegistryError(`Cannot move "${from}" into itself`);
+  }
+  if (!merge && registry.folders.some((f) => f.path === target)) {
+    throw new RegistryError(`Folder "${target}" already exists. Merge the folders instead?`);
+  }
+
+  const move = (folderPath: string) => target + folderPath.slice(from.length);
+  const moved = registry.folders.filter((f) => isInFolder(f.path, from)).map((f) => move(f.path));
+  const updated = copyRegistry(registry);
+  updated.folders = updated.folders.filter((f) => !isInFolder(f.path, from));
+  // Parents that only exist because of the old path must not block the new one
+  const conflict = findNameConflict(updated, moved, []);
+  if (conflict) throw new RegistryError(conflict);
+  for (const folderPath of moved) {
+    registerNames(updated, folderPath, []);
+  }
+
+  const changed = filters
+    .filter((f) => isInFolder(f.targetFolder, from))
+    .map((f) => stamp(f, { targetFolder: move(f.targetFolder) }));
+  return { registry: updated, changed };
+}
+
+// Rename a label on every filter that applies it. Renaming onto an existing
+// label merges the two, which must be asked for with merge.
+export function renameLabel(
+  registry: Registry,
+  filters: Filter[],
+  from: unknown,
+  to: unknown,
+  merge: boolean
+): RegistryChange {
+  const existing = registry.labels.find((l) => l.name === from);
+  if (!existing) {
+    throw new RegistryError('Label not found', 404);
+  }
+  const target = validateLabelName(to);
+  if (target === existing.name) {
+    throw new RegistryError('The new name is the same as the old one');
+  }
+  const merged = registry.labels.find((l) => l.name === target);
+  if (merged && !merge) {
+    throw new RegistryError(`Label "${target}" already exists. Merge the labels instead?`);
+  }
+
+  const updated = copyRegistry(registry);
+  updated.labels = updated.labels.filter((l) => l.name !== existing.name);
+  const conflict = findNameConflict(updated, [], [target]);
+  if (conflict) throw new RegistryError(conflict);
+  if (!merged) {
+    updated.labels.push({ name: target, color: existing.color });
+  }
+
+  const changed = filters
+    .filter((f) => f.labels.includes(existing.name))
+    .map((f) =>
+      stamp(f, {
+        labels: Array.from(new Set(f.labels.map((l) => (l === existing.name ? target : l)))),
+      })
+    );
+  return { registry: sortRegistry(updated), changed };
+}
+
+// Remove a folder and the folders under it, as long as no filter uses them
+export function deleteFolder(registry: Registry, filters: Filter[], folderPath: unknown): Registry {
+  if (typeof folderPath !== 'string' || !registry.folders.some((f) => f.path === folderPath)) {
+    throw new RegistryError('Folder not found', 404);
+  }
+  const users = filters.filter((f) => isInFolder(f.targetFolder, folderPath));
+  if (users.length > 0) {
+    throw new RegistryError(
+      `Folder "${folderPath}" is used by ${users.length} ${users.length === 1 ? 'filter' : 'filters'}; rename or merge it instead`
+    );
+  }
+  const updated = copyRegistry(registry);
+  updated.folders = updated.folders.filter((f) => !isInFolder(f.path, folderPath));
+  return updated;
+}
+
+export function deleteLabel(registry: Registry, filters: Filter[], name: unknown): Registry {
+  if (typeof name !== 'string' || !registry.labels.some((l) => l.name === name)) {
+    throw new RegistryError('Label not found', 404);
+  }
+  const users = filters.filter((f) => f.labels.includes(name));
+  if (users.length > 0) {
+    throw new RegistryError(
+      `Label "${name}" is used by ${users.length} ${users.length === 1 ? 'filter' : 'filters'}; rename or merge it instead`
+    );
+  }
+  const updated = copyRegistry(registry);
+  updated.labels = updated.labels.filter((l) => l.name !== name);
+  return updated;
+}
@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { importSieveScript } from './sieveParser';
+import { FilterSettings } from './storage';
+import { generateSieveScript } from '../../shared/generateSieveScript';
+import { SieveSyntaxError } from '../../shared/sieveSyntax';
+
+function makeSettings(overrides: Partial<FilterSettings> = {}): FilterSettings {
+  return {
+    name: 'Shop',
+    enabled: true,
+    conditions: {
+      type: 'allof',
+      children: [
+        {
+          type: 'address',
+          header: 'from',
+          entries: [
+            { value: 'news@shop.com', mode: 'exact' },
+            { value: 'deals.com', mode: 'domain' },
+          ],
+        },
+        { type: 'subject', matchType: 'contains', values: ['Sale "today"'] },
+      ],
+    },
+    expirationDays: 30,
+    flags: ['\\Seen', 'receipts'],
+    addYearLabel: false,
+    dateLabel: 'YYYY-MM',
+    vacation: null,
+    targetFolder: 'Shopping/Online',
+    labels: ['Promo \\ "x"'],
+    stopProcessing: true,
+    ...overrides,
+  };
+}
+
+test('generated scripts import back as the same filter', () => {
+  const settings = makeSettings();
+  const result = importSieveScript(generateSieveScript(settings));
+  assert.deepEqual(result.issues, []);
+  assert.deepEqual(result.filters, [settings]);
+});
+
+test('known labels and folders decide where a fileinto goes', () => {
+  // Written by hand with the folder first, so the last fileinto is a label
+  const script = [
+    'require ["fileinto"];',
+    'if address :is "from" "a@b.com" {',
+    '    fileinto "Receipts";',
+    '    fileinto "Shopping";',
+    '}',
+  ].join('\n');
+  const [guessed] = importSieveScript(script).filters;
+  assert.equal(guessed.targetFolder, 'Shopping');
+
+  const [known] = importSieveScript(script, { knownFolders: ['Receipts'], knownLabels: ['Shopping'] }).filters;
+  assert.equal(known.targetFolder, 'Receipts');
+  assert.deepEqual(known.labels, ['Shopping']);
+});
+
+test('scripts that do not parse are a syntax error', () => {
+  for (const script of [
+    'if address :is "from" "a@b.com" { fileinto "X";',
+    'if address :is "from" "a@b.com { fileinto "X"; }',
+    'fileinto "X"',
+    'if anyof (address :is "from" "a@b.com" { stop; }',
+  ]) {
+    assert.throws(() => importSieveScript(script), SieveSyntaxError, script);
+  }
+});
+
+test('actions that cannot be imported are reported with their line', () => {
+  const result = importSieveScript(
+    [
+      'require ["fileinto", "vnd.proton.expire"];',
+      'if address :is "from" "a@b.com" {',
+      '    expire "day" "soon";',
+      '    redirect "elsewhere@example.com";',
+      '    fileinto "Archive";',
+      '}',
+    ].join('\n')
+  );
+  assert.deepEqual(
+    result.issues.map((issue) => issue.line),
+    [3, 4]
+  );
+  assert.equal(result.filters[0].expirationDays, null);
+  assert.equal(result.filters[0].targetFolder, 'Archive');
+});
+
+test('labels whose text would read as a date token are not imported as date labels', () => {
+  const result = importSieveScript(
+    [
+      'require ["fileinto", "variables", "date"];',
+      'if address :is "from" "a@b.com" {',
+      '    if currentdate :matches "year" "*" { set "year" "${1}"; }',
+      '    fileinto "MM ${year}";',
+      '}',
+    ].join('\n')
+  );
+  assert.equal(result.filters[0].dateLabel, null);
+  assert.ok(result.issues.some((issue) => issue.line === 4));
+});
@@ -0,0 +1,402 @@
+import {
+  CreateFilterData,
+  ConditionNode,
+  AddressCondition,
+  AddressEntry,
+  AddressMatchMode,
+  SubjectCondition,
+  HeaderCondition,
+  MatchType,
+  VacationAction,
+} from './storage';
+import { fromSieveDateLabel } from '../../shared/dateLabels';
+import { parseSieve, SieveArgument, SieveCommand, SieveTest } from '../../shared/sieveSyntax';
+
+// A problem found while importing a script, tied to the line it came from
+export interface SieveImportIssue {
+  line: number;
+  source: string;
+  message: string;
+  filterIndex?: number;
+}
+
+export interface SieveImportResult {
+  filters: CreateFilterData[];
+  issues: SieveImportIssue[];
+}
+
+export interface SieveImportOptions {
+  knownFolders?: string[];
+  knownLabels?: string[];
+}
+
+function getTags(node: { args: SieveArgument[] }): string[] {
+  return node.args.filter((a) => a.type === 'tag').map((a) => (a as { value: string }).value);
+}
+
+function getStringLists(node: { args: SieveArgument[] }): string[][] {
+  return node.args.filter((a) => a.type === 'strings').map((a) => (a as { values: string[] }).values);
+}
+
+// Map an address test produced by generateSieveScript onto a condition leaf
+function mapAddressTest(test: SieveTest, report: (message: string) => void): AddressCondition | null {
+  const tags = getTags(test);
+  const lists = getStringLists(test);
+  if (lists.length !== 2) {
+    report('Address test must have a header list and a key list');
+    return null;
+  }
+  const [headers, keys] = lists;
+  if (headers.length !== 1) {
+    report('Address tests on more than one header cannot be imported');
+    return null;
+  }
+  const header = headers[0].toLowerCase();
+  if (header !== 'from' && header !== 'to') {
+    report(`Address tests on "${headers[0]}" cannot be imported`);
+    return null;
+  }
+
+  const addressPart = tags.find((t) => [':all', ':domain', ':localpart'].includes(t)) ?? ':all';
+  const matchType = tags.find((t) => [':is', ':contains', ':matches'].includes(t)) ?? ':is';
+  const otherTags = tags.filter((t) => t !== addressPart && t !== matchType);
+  if (otherTags.length > 0) {
+    report(`Unsupported address test options: ${otherTags.join(' ')}`);
+    return null;
+  }
+
+  const entries: AddressEntry[] = [];
+  const rejected: string[] = [];
+  for (const key of keys) {
+    let mode: AddressMatchMode | null = null;
+    let value = key;
+    if (addressPart === ':all' && matchType === ':is' && key.includes('@')) {
+      mode = 'exact';
+    } else if (addressPart === ':all' && matchType === ':matches') {
+      mode = 'wildcard';
+    } else if (addressPart === ':domain' && matchType === ':is') {
+      mode = 'domain';
+    } else if (addressPart === ':domain' && matchType === ':contains') {
+      mode = 'domain-contains';
+    } else if (addressPart === ':domain' && matchType === ':matches' && /^\*\.[^*?]+$/.test(key)) {
+      // "*.example.com" is how the generator writes the subdomain half of domain plus subdomains
+      mode = 'subdomains';
+      value = key.slice(2);
+    } else if (addressPart === ':localpart' && matchType === ':is') {
+      mode = 'localpart';
+    }
+    if (mode) {
+      entries.push({ value, mode });
+    } else {
+      rejected.push(key);
+    }
+  }
+
+  if (rejected.length > 0) {
+    report(`Unsupported address test (${addressPart} ${matchType}) for: ${rejected.join(', ')}`);
+  }
+  return entries.length > 0 ? { type: 'address', header, entries } : null;
+}
+
+// Combine the address tests the generator emits for one condition, dropping
+// exact domains that are already covered by domain plus subdomains
+function mergeAddressConditions(conditions: AddressCondition[]): AddressCondition {
+  const entries = conditions.flatMap((c) => c.entries);
+  const subdomains = new Set(entries.filter((e) => e.mode === 'subdomains').map((e) => e.value.toLowerCase()));
+  return {
+    type: 'address',
+    header: conditions[0].header,
+    entries: entries.filter((e) => e.mode !== 'domain' || !subdomains.has(e.value.toLowerCase())),
+  };
+}
+
+// Map a header test onto a Subject or custom header leaf
+function mapHeaderTest(test: SieveTest, report: (message: string) => void): SubjectCondition | HeaderCondition | null {
+  const tags = getTags(test);
+  const lists = getStringLists(test);
+  if (lists.length !== 2) {
+    report('Header test must have a header list and a key list');
+    return null;
+  }
+  const [headers, keys] = lists;
+  if (headers.length !== 1) {
+    report(`Header tests on several headers (${headers.join(', ')}) cannot be imported`);
+    return null;
+  }
+  const matchType = tags.length === 0 ? ':is' : tags.length === 1 ? tags[0] : '';
+  if (matchType !== ':is' && matchType !== ':contains' && matchType !== ':matches') {
+    report(`Unsupported header test with ${tags.join(' ')}`);
+    return null;
+  }
+  if (headers[0].toLowerCase() === 'subject') {
+    return { type: 'subject', matchType: matchType.slice(1) as MatchType, values: keys };
+  }
+  return { type: 'header', name: headers[0], matchType: matchType.slice(1) as MatchType, values: keys };
+}
+
+// Map a test onto a condition tree node, reporting and dropping what cannot be represented
+function mapTest(test: SieveTest, report: (line: number, message: string) => void): ConditionNode | null {
+  switch (test.name) {
+    case 'address':
+      return mapAddressTest(test, (message) => report(test.line, message));
+    case 'header':
+      return mapHeaderTest(test, (message) => report(test.line, message));
+    case 'allof':
+    case 'anyof': {
+      const children = test.tests
+        .map((t) => mapTest(t, report))
+        .filter((c): c is ConditionNode => c !== null);
+      if (children.length === 0) return null;
+      // The generator splits one address condition into an anyof of :is and :domain tests
+      const [first] = children;
+      if (
+        test.name === 'anyof' &&
+        first.type === 'address' &&
+        children.every((c) => c.type === 'address' && c.header === first.header)
+      ) {
+        return mergeAddressConditions(children as AddressCondition[]);
+      }
+      return { type: test.name, children };
+    }
+    case 'not': {
+      const child = test.tests.length === 1 ? mapTest(test.tests[0], report) : null;
+      return child ? { type: 'not', child } : null;
+    }
+    default:
+      report(test.line, `Unsupported test "${test.name}"`);
+      return null;
+  }
+}
+
+// Map a vacation action (RFC 5230) onto the auto-reply settings. The reply
+// body is the last string; tagged arguments are read with their values.
+function mapVacationAction(action: SieveCommand, report: (message: string) => void): VacationAction | null {
+  const vacation: VacationAction = { subject: '', body: '', days: null, addresses: [] };
+  const ignored: string[] = [];
+  let body: string[] | null = null;
+  for (let i = 0; i < action.args.length; i++) {
+    const arg = action.args[i];
+    if (arg.type !== 'tag') {
+      body = arg.type === 'strings' ? arg.values : null;
+      continue;
+    }
+    const next = action.args[i + 1];
+    switch (arg.value) {
+      case ':days':
+        if (next?.type === 'number') {
+          vacation.days = next.value;
+          i++;
+        }
+        break;
+      case ':subject':
+        if (next?.type === 'strings') {
+          vacation.subject = next.values[0];
+          i++;
+        }
+        break;
+      case ':addresses':
+        if (next?.type === 'strings') {
+          vacation.addresses = next.values;
+          i++;
+        }
+        break;
+      case ':from':
+      case ':handle':
+        ignored.push(arg.value);
+        if (next?.type === 'strings') i++;
+        break;
+      default:
+        ignored.push(arg.value);
+    }
+  }
+  if (ignored.length > 0) {
+    report(`vacation options are ignored: ${ignored.join(' ')}`);
+  }
+  if (!body || body.length !== 1 || !body[0].trim()) {
+    report('vacation must end with a non-empty reply body');
+    return null;
+  }
+  vacation.body = body[0];
+  return vacation;
+}
+
+function isTrashCheck(test: SieveTest): boolean {
+  if (test.name !== 'not' || test.tests.length !== 1) return false;
+  const inner = test.tests[0];
+  const lists = getStringLists(inner);
+  return inner.name === 'hasflag' && lists.length === 1 && lists[0].length === 1 && lists[0][0] === '\\Deleted';
+}
+
+const SYSTEM_FOLDERS = ['inbox', 'archive', 'spam', 'trash', 'sent', 'drafts', 'starred'];
+
+// Parse a Sieve script (such as one produced by generateSieveScript) into filter data.
+// Anything that cannot be represented by a Filter is reported as an issue with its line.
+export function importSieveScript(script: string, options: SieveImportOptions = {}): SieveImportResult {
+  const { commands, comments } = parseSieve(script);
+  const lines = script.split('\n');
+  const knownFolders = new Set((options.knownFolders ?? []).map((f) => f.toLowerCase()));
+  const knownLabels = new Set((options.knownLabels ?? []).map((l) => l.toLowerCase()));
+
+  const filters: CreateFilterData[] = [];
+  const issues: SieveImportIssue[] = [];
+  let previousLine = 0;
+
+  const addIssue = (line: number, message: string, filterIndex?: number) => {
+    issues.push({ line, source: (lines[line - 1] ?? '').trim(), message, filterIndex });
+  };
+
+  for (const command of commands) {
+    // The generator puts the filter name comment above require, so it does not reset the search
+    if (command.name === 'require') {
+      continue;
+    }
+    if (command.name !== 'if') {
+      addIssue(command.line, `"${command.name}" outside of an if block cannot be imported`);
+      previousLine = command.line;
+      continue;
+    }
+
+    const filterIndex = filters.length;
+    const nameComment = comments
+      .filter((c) => c.line > previousLine && c.line < command.line && /^Filter:/i.test(c.text))
+      .pop();
+    previousLine = command.line;
+
+    const filter: CreateFilterData = {
+      name: nameComment ? nameComment.text.replace(/^Filter:\s*/i, '') : `Imported filter ${filterIndex + 1}`,
+      enabled: true,
+      conditions: null,
+      expirationDays: null,
+      flags: [],
+      addYearLabel: false,
+      dateLabel: null,
+      vacation: null,
+      targetFolder: '',
+      labels: [],
+      stopProcessing: true,
+    };
+
+    // Conditions
+    const rootTest = command.tests[0];
+    const tests = rootTest?.name === 'allof' ? rootTest.tests : rootTest ? [rootTest] : [];
+    const children = tests
+      .filter((test) => test.name !== 'true' && !isTrashCheck(test))
+      .map((test) => mapTest(test, (line, message) => addIssue(line, message, filterIndex)))
+      .filter((c): c is ConditionNode => c !== null);
+    filter.conditions = children.length > 0 ? { type: 'allof', children } : null;
+
+    // Actions
+    const fileintoTargets: { value: string; line: number }[] = [];
+    let hasStop = false;
+    for (const action of command.block ?? []) {
+      const lists = getStringLists(action);
+      switch (action.name) {
+        case 'expire': {
+          const [unit, days] = lists.map((l) => l[0]);
+          const parsedDays = parseInt(days, 10);
+          if (lists.length !== 2 || unit !== 'day' || isNaN(parsedDays)) {
+            addIssue(action.line, 'Only expire "day" "<n>" can be imported', filterIndex);
+          } else {
+            filter.expirationDays = parsedDays;
+          }
+          break;
+        }
+        case 'addflag':
+        case 'setflag': {
+          // A string can hold several space-separated flags
+          if (lists.length !== 1) {
+            addIssue(action.line, `${action.name} with a variable name cannot be imported`, filterIndex);
+            break;
+          }
+          for (const flag of lists[0].flatMap((value) => value.split(/\s+/)).filter((f) => f !== '')) {
+            if (!filter.flags.includes(flag)) {
+              filter.flags.push(flag);
+            }
+          }
+          break;
+        }
+        case 'fileinto': {
+          if (getTags(action).length > 0) {
+            addIssue(action.line, `fileinto options are ignored: ${getTags(action).join(' ')}`, filterIndex);
+          }
+          if (lists.length === 1 && lists[0].length === 1) {
+            fileintoTargets.push({ value: lists[0][0], line: action.line });
+          } else {
+            addIssue(action.line, 'fileinto must have a single mailbox name', filterIndex);
+          }
+          break;
+        }
+        case 'if':
+          // The generator sets date variables from currentdate before date labels
+          if (action.tests[0]?.name !== 'currentdate' || !(action.block ?? []).every((c) => c.name === 'set')) {
+            addIssue(action.line, 'Nested if blocks cannot be imported', filterIndex);
+          }
+          break;
+        case 'vacation': {
+          const vacation = mapVacationAction(action, (message) => addIssue(action.line, message, filterIndex));
+          if (vacation) {
+            filter.vacation = vacation;
+          }
+          break;
+        }
+        case 'stop':
+          hasStop = true;
+          break;
+        case 'keep':
+          break;
+        default:
+          addIssue(action.line, `Unsupported action "${action.name}"`, filterIndex);
+      }
+    }
+
+    // Labels and folders are both applied with fileinto. Known names, a year, date variables, or a path
+    // decide where possible; otherwise the last target is the folder (generator order).
+    const isYear = (value: string) => /^\d{4}$/.test(value);
+    const isDateLabel = (value: string) => value.includes('${');
+    const isFolder = (value: string) =>
+      !isDateLabel(value) &&
+      (value.includes('/') ||
+        SYSTEM_FOLDERS.includes(value.toLowerCase()) ||
+        knownFolders.has(value.toLowerCase()));
+    const folderCandidates = fileintoTargets.filter((t) => isFolder(t.value));
+    let folder: { value: string; line: number } | undefined = folderCandidates[folderCandidates.length - 1];
+    if (!folder) {
+      folder = [...fileintoTargets]
+        .reverse()
+        .find((t) => !isYear(t.value) && !isDateLabel(t.value) && !knownLabels.has(t.value.toLowerCase()));
+    }
+    for (const target of fileintoTargets) {
+      if (target === folder) {
+        filter.targetFolder = target.value;
+      } else if (isYear(target.value)) {
+        filter.addYearLabel = true;
+      } else if (isDateLabel(target.value)) {
+        const format = fromSieveDateLabel(target.value);
+        if (format === 'YYYY') {
+          filter.addYearLabel = true;
+        } else if (format === null) {
+          addIssue(
+            target.line,
+            `Label "${target.value}" uses variables other than date variables, or text that would be read as a date token`,
+            filterIndex
+          );
+        } else if (filter.dateLabel) {
+          addIssue(target.line, `Only one date label can be imported; "${format}" was skipped`, filterIndex);
+        } else {
+          filter.dateLabel = format;
+        }
+      } else if (isFolder(target.value)) {
+        addIssue(target.line, `Only one folder can be imported; "${target.value}" was skipped`, filterIndex);
+      } else if (!filter.labels.includes(target.value)) {
+        filter.labels.push(target.value);
+      }
+    }
+
+    // Filing without a stop lets later filters run too
+    filter.stopProcessing = hasStop || fileintoTargets.length === 0;
+
+    filters.push(filter);
+  }
+
+  return { filters, issues };
+}
@@ -1,19 +1,83 @@
-import { readFile, writeFile, mkdir } from 'fs/promises';
+import { readFile, writeFile, mkdir, rename, copyFile, stat, unlink } from 'fs/promises';
 import { existsSync, readFileSync } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
+import type { SieveServerConfig } from './manageSieve';
+import type { ImapServerConfig } from './imap';
 
-export interface Filter {
+import {
+  AddressEntry,
+  AddressCondition,
+  ConditionNode,
+  VacationAction,
+  FilterDeployment,
+  FilterSettings,
+} from '../../shared/types';
+
+export type {
+  AddressMatchMode,
+  AddressEntry,
+  AddressCondition,
+  MatchType,
+  SubjectCondition,
+  HeaderCondition,
+  AllOfCondition,
+  AnyOfCondition,
+  NotCondition,
+  ConditionNode,
+  VacationAction,
+  FilterDeployment,
+  FilterSettings,
+  BulkEdit,
+} from '../../shared/types';
+
+export interface Filter extends FilterSettings {
   id: string;
-  name: string;
-  fromAddresses: string[];
-  toAddress: string;
-  expirationDays: number | null;
-  markRead: boolean;
-  addYearLabel: boolean;
-  targetFolder: string;
-  labels: string[];
+  // Position in the generated script; lower runs first
+  priority: number;
   updatedAt: string;
+  // null until the filter is marked as deployed
+  deployment: FilterDeployment | null;
+}
+
+export type CreateFilterData = Omit<Filter, 'id' | 'updatedAt' | 'priority' | 'deployment'>;
+
+// A user folder; "/" separates parent and child folders
+export interface RegistryFolder {
+  path: string;
+}
+
+export interface RegistryLabel {
+  name: string;
+  // Hex colour such as "#8080FF", or null for Proton's default
+  color: string | null;
+}
+
+// The folders and labels that exist in the user's mailbox, used or not
+export interface Registry {
+  folders: RegistryFolder[];
+  labels: RegistryLabel[];
+}
+
+export const SEEN_FLAG = '\\Seen';
+
+// Filters saved before condition trees existed
+interface LegacyFilter
+  extends Omit<
+    Filter,
+    'conditions' | 'dateLabel' | 'vacation' | 'flags' | 'priority' | 'stopProcessing' | 'enabled' | 'deployment'
+  > {
+  fromAddresses?: string[];
+  toAddress?: string;
+  conditions?: ConditionNode | null;
+  dateLabel?: string | null;
+  vacation?: VacationAction | null;
+  markRead?: boolean;
+  flags?: string[];
+  priority?: number;
+  stopProcessing?: boolean;
+  enabled?: boolean;
+  deployment?: FilterDeployment | null;
 }
 
 const DATA_DIR = '/app/data';
@@ -40,31 +104,251 @@ function loadUsers(): string[] {
 export const VALID_DATABASES: readonly string[] = loadUsers();
 export type Database = string;
 
+// ManageSieve settings per user, kept beside users.json in sieve-servers.json.
+// Read on every use so a changed password needs no restart.
+export async function readSieveServer(database: Database): Promise<SieveServerConfig | null> {
+  const configFile = path.join(CONFIG_DIR, 'sieve-servers.json');
+  if (!existsSync(configFile)) return null;
+  const servers: Record<string, Partial<SieveServerConfig>> = JSON.parse(await readFile(configFile, 'utf-8'));
+  const server = servers[database];
+  if (!server?.host || !server.username || !server.password) return null;
+  return {
+    host: server.host,
+    port: server.port ?? 4190,
+    username: server.username,
+    password: server.password,
+    tls: server.tls ?? 'starttls',
+    tlsVerify: server.tlsVerify ?? true,
+    scriptName: server.scriptName ?? 'proton-filters',
+  };
+}
+
+// IMAP settings per user, kept in imap-servers.json. Defaults suit Proton
+// Bridge on the same machine.
+export async function readImapServer(database: Database): Promise<ImapServerConfig | null> {
+  const configFile = path.join(CONFIG_DIR, 'imap-servers.json');
+  if (!existsSync(configFile)) return null;
+  const servers: Record<string, Partial<ImapServerConfig>> = JSON.parse(await readFile(configFile, 'utf-8'));
+  const server = servers[database];
+  if (!server?.username || !server.password) return null;
+  return {
+    host: server.host ?? '127.0.0.1',
+    port: server.port ?? 1143,
+    username: server.username,
+    password: server.password,
+    tls: server.tls ?? 'starttls',
+    tlsVerify: server.tlsVerify ?? true,
+  };
+}
+
 function getFiltersFile(database: Database): string {
   return path.join(DATA_DIR, `filters-${database}.json`);
 }
 
+function getRegistryFile(database: Database): string {
+  return path.join(DATA_DIR, `registry-${database}.json`);
+}
+
 export function generateId(): string {
   return crypto.randomUUID();
 }
 
-export async function readFilters(database: Database): Promise<Filter[]> {
-  const filtersFile = getFiltersFile(database);
-  try {
-    if (!existsSync(filtersFile)) {
-      return [];
+// Entries saved before match modes existed: "@" meant an exact address,
+// anything else a domain substring
+export function toAddressEntry(value: string): AddressEntry {
+  return { value, mode: value.includes('@') ? 'exact' : 'domain-contains' };
+}
+
+// Address leaves saved before match modes existed carry plain values
+function migrateConditions(node: ConditionNode): ConditionNode {
+  switch (node.type) {
+    case 'address': {
+      const legacy = node as AddressCondition & { values?: string[] };
+      if (legacy.entries) return node;
+      const { values = [], ...rest } = legacy;
+      return { ...rest, entries: values.map(toAddressEntry) };
     }
-    const data = await readFile(filtersFile, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return [];
+    case 'allof':
+    case 'anyof':
+      return { ...node, children: node.children.map(migrateConditions) };
+    case 'not':
+      return { ...node, child: migrateConditions(node.child) };
+    default:
+      return node;
   }
 }
 
-export async function writeFilters(database: Database, filters: Filter[]): Promise<void> {
+// Convert fromAddresses/toAddress into the equivalent condition tree
+// (any of the From entries, and the To address), bring older trees
+// up to date, turn markRead into a flag and default fields added since.
+// Filters saved before priorities existed keep their position in the file,
+// and filters saved before stopProcessing existed keep stopping.
+export function migrateFilter(filter: LegacyFilter, index: number): Filter {
+  const {
+    markRead,
+    flags = markRead ? [SEEN_FLAG] : [],
+    priority = index,
+    stopProcessing = true,
+    enabled = true,
+    deployment = null,
+    ...current
+  } = filter;
+  if (current.conditions !== undefined) {
+    return {
+      ...current,
+      conditions: current.conditions && migrateConditions(current.conditions),
+      dateLabel: current.dateLabel ?? null,
+      vacation: current.vacation ?? null,
+      flags,
+      priority,
+      stopProcessing,
+      enabled,
+      deployment,
+    };
+  }
+  const { fromAddresses = [], toAddress = '', dateLabel = null, vacation = null, ...rest } = current;
+  const children: ConditionNode[] = [];
+  const from = fromAddresses.filter((a) => a.trim() !== '');
+  if (from.length > 0) {
+    children.push({ type: 'address', header: 'from', entries: from.map(toAddressEntry) });
+  }
+  if (toAddress) {
+    // The To address was always matched exactly
+    children.push({ type: 'address', header: 'to', entries: [{ value: toAddress, mode: 'exact' }] });
+  }
+  return {
+    ...rest,
+    conditions: children.length > 0 ? { type: 'allof', children } : null,
+    dateLabel,
+    vacation,
+    flags,
+    priority,
+    stopProcessing,
+    enabled,
+    deployment,
+  };
+}
+
+function sortByPriority(filters: Filter[]): Filter[] {
+  return [...filters].sort((a, b) => a.priority - b.priority);
+}
+
+// Priority for a filter added after all of the given ones
+export function nextPriority(filters: Filter[]): number {
+  return filters.reduce((max, f) => Math.max(max, f.priority), -1) + 1;
+}
+
+// A data file that cannot be used. The message is meant for the user.
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+// Corrupt files already copied aside, by path, modification time and size
+const keptCorruptFiles = new Set<string>();
+
+// Copy a file that failed to parse next to it, once per version of the file,
+// so it survives whatever is done to fix it. Returns the copy's name.
+async function keepCorruptFile(file: string): Promise<string> {
+  const { mtimeMs, size } = await stat(file);
+  const stamp = new Date(mtimeMs).toISOString().replace(/[:.]/g, '-');
+  const copy = `${file}.corrupt-${stamp}`;
+  const key = `${file}:${mtimeMs}:${size}`;
+  if (!keptCorruptFiles.has(key)) {
+    await copyFile(file, copy);
+    keptCorruptFiles.add(key);
+  }
+  return path.basename(copy);
+}
+
+// Read and parse a data file, or undefined if it does not exist yet. A file
+// that does not parse is never treated as empty: it is copied aside and a
+// StorageError is thrown, so nothing gets written over it.
+async function readDataFile<T>(file: string, isValid: (data: unknown) => boolean): Promise<T | undefined> {
+  if (!existsSync(file)) {
+    return undefined;
+  }
+  const text = await readFile(file, 'utf-8');
+  let problem: string;
+  try {
+    const data: unknown = JSON.parse(text);
+    if (isValid(data)) return data as T;
+    problem = 'it does not have the expected structure';
+  } catch (error) {
+    problem = (error as Error).message;
+  }
+  const copy = await keepCorruptFile(file);
+  throw new StorageError(
+    `${path.basename(file)} could not be read (${problem}). A copy was kept as ${copy}. ` +
+      'Nothing will be saved to this database until the file is fixed or removed.'
+  );
+}
+
+// Write to a temporary file and rename it over the old one, so a crash or a
+// full disk never leaves a half-written file behind
+async function writeDataFile(file: string, isValid: (data: unknown) => boolean, data: unknown): Promise<void> {
   if (!existsSync(DATA_DIR)) {
     await mkdir(DATA_DIR, { recursive: true });
   }
-  const filtersFile = getFiltersFile(database);
-  await writeFile(filtersFile, JSON.stringify(filters, null, 2));
+  // Refuses to replace a file that failed to parse
+  await readDataFile(file, isValid);
+  const temp = `${file}.${process.pid}-${crypto.randomUUID()}.tmp`;
+  try {
+    await writeFile(temp, JSON.stringify(data, null, 2));
+    await rename(temp, file);
+  } catch (error) {
+    await unlink(temp).catch(() => undefined);
+    throw error;
+  }
+}
+
+// Holders of each database's lock, chained so each waits for the one before
+const locks = new Map<Database, Promise<void>>();
+
+// Wait until no one else holds the database's lock, then hold it until the
+// returned function is called. Used to keep read-modify-write requests from
+// interleaving.
+export async function lockDatabase(database: Database): Promise<() => void> {
+  const previous = locks.get(database) ?? Promise.resolve();
+  let release!: () => void;
+  const held = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const chained = previous.then(() => held);
+  locks.set(database, chained);
+  await previous;
+  return () => {
+    release();
+    if (locks.get(database) === chained) {
+      locks.delete(database);
+    }
+  };
+}
+
+const isFilterList = (data: unknown) => Array.isArray(data);
+
+const isRegistry = (data: unknown) =>
+  typeof data === 'object' &&
+  data !== null &&
+  Array.isArray((data as Registry).folders) &&
+  Array.isArray((data as Registry).labels);
+
+export async function readFilters(database: Database): Promise<Filter[]> {
+  const filters = await readDataFile<LegacyFilter[]>(getFiltersFile(database), isFilterList);
+  return filters ? sortByPriority(filters.map(migrateFilter)) : [];
+}
+
+export async function writeFilters(database: Database, filters: Filter[]): Promise<void> {
+  await writeDataFile(getFiltersFile(database), isFilterList, filters);
+}
+
+// null until the registry is first saved; see buildRegistry for seeding it from filters
+export async function readRegistry(database: Database): Promise<Registry | null> {
+  return (await readDataFile<Registry>(getRegistryFile(database), isRegistry)) ?? null;
+}
+
+export async function writeRegistry(database: Database, registry: Registry): Promise<void> {
+  await writeDataFile(getRegistryFile(database), isRegistry, registry);
 }
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportThunderbirdFilters } from './thunderbirdFilters';
+import { Filter, ConditionNode } from './storage';
+
+const ACCOUNT = 'imap://alice%40proton.me@127.0.0.1';
+
+function makeFilter(conditions: ConditionNode | null, overrides: Partial<Filter> = {}): Filter {
+  return {
+    id: '1',
+    name: 'Shop',
+    enabled: true,
+    conditions,
+    expirationDays: null,
+    flags: [],
+    addYearLabel: false,
+    dateLabel: null,
+    vacation: null,
+    targetFolder: 'Shopping',
+    labels: [],
+    stopProcessing: true,
+    priority: 0,
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    deployment: null,
+    ...overrides,
+  };
+}
+
+function from(...values: string[]): ConditionNode {
+  return { type: 'address', header: 'from', entries: values.map((value) => ({ value, mode: 'exact' })) };
+}
+
+function exportOne(conditions: ConditionNode | null, overrides: Partial<Filter> = {}) {
+  return exportThunderbirdFilters([makeFilter(conditions, overrides)], { account: ACCOUNT });
+}
+
+test('a simple filter becomes one rule with its move action', () => {
+  const result = exportOne(from('news@shop.com'));
+  assert.equal(result.exported, 1);
+  assert.deepEqual(result.issues, []);
+  assert.equal(
+    result.rules,
+    [
+      'version="9"',
+      'logging="no"',
+      'name="Shop"',
+      'enabled="yes"',
+      'type="17"',
+      'action="Move to folder"',
+      `actionValue="${ACCOUNT}/Folders/Shopping"`,
+      'action="Stop execution"',
+      'condition="AND (from,is,news@shop.com)"',
+      '',
+    ].join('\n')
+  );
+});
+
+test('any of single terms becomes one OR rule', () => {
+  const result = exportOne(from('a@x.com', 'b@x.com', 'c@x.com'));
+  assert.match(result.rules, /condition="OR \(from,is,a@x\.com\) OR \(from,is,b@x\.com\) OR \(from,is,c@x\.com\)"/);
+});
+
+test('mixed all of and any of is split into one rule per alternative', () => {
+  const result = exportOne({
+    type: 'allof',
+    children: [from('a@x.com', 'b@x.com'), { type: 'subject', matchType: 'contains', values: ['Sale'] }],
+  });
+  assert.equal(result.exported, 1);
+  assert.match(result.rules, /name="Shop \(1\/2\)"/);
+  assert.match(result.rules, /name="Shop \(2\/2\)"/);
+  assert.equal(result.issues.length, 1);
+  assert.equal(result.issues[0].skipped, false);
+});
+
+test('values with separators are quoted and escaped', () => {
+  const result = exportOne({ type: 'subject', matchType: 'contains', values: ['a, "b" (c)'] });
+  // Quoted once as a term value, then again as the attribute value
+  assert.ok(result.rules.includes(String.raw`condition="AND (subject,contains,\"a, \\\"b\\\" (c)\")"`));
+});
+
+test('filters too large to split are skipped without building every combination', () => {
+  const wide = (prefix: string) => ({
+    type: 'anyof' as const,
+    children: Array.from({ length: 4 }, (_, i) => from(`${prefix}${i}@x.com`)),
+  });
+  const started = Date.now();
+  const result = exportOne({ type: 'allof', children: Array.from({ length: 30 }, (_, i) => wide(`a${i}-`)) });
+  assert.ok(Date.now() - started < 1000);
+  assert.equal(result.exported, 0);
+  assert.equal(result.issues.length, 1);
+  assert.equal(result.issues[0].skipped, true);
+  assert.match(result.issues[0].message, /more than 10 rules/);
+});
+
+test('negating a wide all of is skipped', () => {
+  const pairs = Array.from({ length: 40 }, (_, i) => ({
+    type: 'allof' as const,
+    children: [from(`p${i}@x.com`), from(`q${i}@x.com`)],
+  }));
+  const result = exportOne({ type: 'not', child: { type: 'anyof', children: pairs } });
+  assert.equal(result.exported, 0);
+  assert.equal(result.issues[0].skipped, true);
+});
+
+test('conditions Thunderbird cannot express are skipped, not broadened', () => {
+  const wildcard = exportOne({ type: 'address', header: 'from', entries: [{ value: '*@shop.*', mode: 'wildcard' }] });
+  assert.equal(wildcard.exported, 0);
+  assert.equal(wildcard.issues[0].skipped, true);
+
+  const never = exportOne({ type: 'anyof', children: [] });
+  assert.equal(never.exported, 0);
+  assert.equal(never.issues[0].skipped, true);
+});
@@ -0,0 +1,253 @@
+import { Filter, ConditionNode, AddressEntry, SEEN_FLAG } from './storage';
+
+const FLAGGED_FLAG = '\\Flagged';
+
+// Thunderbird's mailbox names for Proton Bridge's system folders
+const SYSTEM_FOLDERS: Record<string, string> = {
+  archive: 'Archive',
+  spam: 'Spam',
+  trash: 'Trash',
+  sent: 'Sent',
+  drafts: 'Drafts',
+  starred: 'Starred',
+};
+
+// A filter split into more rules than this is left out instead
+const MAX_PARTS = 10;
+
+// New mail and "Run Now"
+const FILTER_TYPE = 17;
+
+// Something in our filters that Thunderbird cannot express. Filters whose
+// conditions cannot be matched are left out rather than broadened.
+export interface ThunderbirdExportIssue {
+  filterId?: string;
+  filterName?: string;
+  message: string;
+  skipped: boolean;
+}
+
+export interface ThunderbirdExportResult {
+  rules: string;
+  exported: number;
+  issues: ThunderbirdExportIssue[];
+}
+
+export interface ThunderbirdExportOptions {
+  // Folder URI of the Bridge account, such as imap://alice%40proton.me@127.0.0.1
+  account: string;
+}
+
+// One Thunderbird search term, such as (from,ends with,@example.com)
+interface SearchTerm {
+  attribute: string;
+  operator: string;
+  value: string;
+}
+
+// Thunderbird cannot mix AND and OR in one filter, so conditions are
+// flattened into alternatives that each require every term in them
+type Alternatives = SearchTerm[][];
+
+class UnsupportedCondition extends Error {}
+
+const NEGATED_OPERATORS: Record<string, string> = {
+  contains: "doesn't contain",
+  "doesn't contain": 'contains',
+  is: "isn't",
+  "isn't": 'is',
+};
+
+function addressTerms(header: string, entry: AddressEntry): SearchTerm[] {
+  const term = (operator: string, value: string) => ({ attribute: header, operator, value });
+  switch (entry.mode) {
+    case 'exact':
+      return [term('is', entry.value)];
+    case 'domain':
+      return [term('ends with', `@${entry.value}`)];
+    case 'subdomains':
+      return [term('ends with', `@${entry.value}`), term('ends with', `.${entry.value}`)];
+    case 'localpart':
+      return [term('begins with', `${entry.value}@`)];
+    case 'domain-contains':
+      return [term('contains', entry.value)];
+    case 'wildcard':
+      throw new UnsupportedCondition(`Thunderbird has no wildcard address match for "${entry.value}"`);
+  }
+}
+
+// A single alternative with no terms matches every message
+function matchesAll(alternatives: Alternatives): boolean {
+  return alternatives.length === 1 && alternatives[0].length === 0;
+}
+
+// Every way of picking one alternative from each list, joined together.
+// Joining two lists of several alternatives can only be written as one rule
+// per alternative, so this gives up as soon as that would take more than
+// MAX_PARTS rules instead of building a product that would be thrown away.
+function combine(lists: Alternatives[]): Alternatives {
+  return lists.reduce<Alternatives>((result, list) => {
+    if (result.length * list.length > MAX_PARTS && !matchesAll(result) && !matchesAll(list)) {
+      throw new UnsupportedCondition(
+        `Thunderbird cannot mix "all of" and "any of", and splitting the filter would take more than ${MAX_PARTS} rules`
+      );
+    }
+    return result.flatMap((terms) => list.map((more) => [...terms, ...more]));
+  }, [[]]);
+}
+
+function negate(alternatives: Alternatives): Alternatives {
+  // not (a or b) is (not a) and (not b); not (a and b) is (not a) or (not b)
+  return combine(
+    alternatives.map((terms) =>
+      terms.map((term) => {
+        const operator = NEGATED_OPERATORS[term.operator];
+        if (!operator) {
+          throw new UnsupportedCondition(`Thunderbird cannot negate "${term.operator}" on ${term.attribute}`);
+        }
+        return [{ ...term, operator }];
+      })
+    )
+  );
+}
+
+function toAlternatives(node: ConditionNode): Alternatives {
+  switch (node.type) {
+    case 'address':
+      return node.entries.flatMap((entry) => addressTerms(node.header, entry)).map((term) => [term]);
+    case 'subject':
+    case 'header': {
+      if (node.matchType === 'matches') {
+        throw new UnsupportedCondition('Thunderbird has no wildcard match for headers');
+      }
+      // Headers other than the built-in ones are written quoted
+      const attribute = node.type === 'subject' ? 'subject' : `"${node.name}"`;
+      return node.values.map((value) => [{ attribute, operator: node.matchType, value }]);
+    }
+    case 'allof':
+      return combine(node.children.map(toAlternatives));
+    case 'anyof': {
+      // One child that always matches makes the rest irrelevant, which keeps
+      // alternatives with no terms out of combine()
+      const alternatives = node.children.flatMap(toAlternatives);
+      return alternatives.some((terms) => terms.length === 0) ? [[]] : alternatives;
+    }
+    case 'not':
+      return negate(toAlternatives(node.child));
+  }
+}
+
+// Values with characters that end a term are quoted, escaping quotes and backslashes
+function formatValue(value: string): string {
+  if (/[(),"\\]|^\s|\s$/.test(value)) {
+    return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+  }
+  return value;
+}
+
+function formatCondition(terms: SearchTerm[], join: 'AND' | 'OR'): string {
+  if (terms.length === 0) return 'ALL';
+  return terms.map((t) => `${join} (${t.attribute},${t.operator},${formatValue(t.value)})`).join(' ');
+}
+
+// Attribute values in msgFilterRules.dat escape quotes and backslashes
+function formatAttribute(name: string, value: string): string {
+  return `${name}="${value.replace(/[\r\n]+/g, ' ').replace(/[\\"]/g, '\\$&')}"`;
+}
+
+// Thunderbird derives a tag's key from its name, as nsMsgTagService does
+function toTagKey(name: string): string {
+  return name.toLowerCase().replace(/[ ()/{%*<>\\"]/g, '_');
+}
+
+function folderUri(account: string, folder: string): string {
+  const system = SYSTEM_FOLDERS[folder.toLowerCase()];
+  const path = system ? [system] : ['Folders', ...folder.split('/')];
+  return `${account}/${path.map(encodeURIComponent).join('/')}`;
+}
+
+// Write the filters as a Thunderbird msgFilterRules.dat for a Proton Bridge
+// account. Folders become moves, labels and custom flags become tags, and
+// disabled filters are kept but switched off.
+export function exportThunderbirdFilters(
+  allFilters: Filter[],
+  options: ThunderbirdExportOptions
+): ThunderbirdExportResult {
+  const account = options.account.replace(/\/+$/, '');
+  const issues: ThunderbirdExportIssue[] = [];
+  const lines = ['version="9"', 'logging="no"'];
+  let exported = 0;
+
+  for (const filter of allFilters) {
+    const report = (message: string, skipped = false) =>
+      issues.push({ filterId: filter.id, filterName: filter.name, message, skipped });
+
+    let alternatives: Alternatives;
+    try {
+      alternatives = filter.conditions ? toAlternatives(filter.conditions) : [[]];
+    } catch (error) {
+      if (!(error instanceof UnsupportedCondition)) throw error;
+      report(`${error.message}, so the filter was not exported`, true);
+      continue;
+    }
+
+    // One AND rule, one OR rule of single terms, or one AND rule per alternative
+    let parts: string[];
+    if (alternatives.length === 0) {
+      report('The conditions can never match, so the filter was not exported', true);
+      continue;
+    } else if (alternatives.length === 1) {
+      parts = [formatCondition(alternatives[0], 'AND')];
+    } else if (alternatives.every((terms) => terms.length === 1)) {
+      parts = [formatCondition(alternatives.flat(), 'OR')];
+    } else if (alternatives.length <= MAX_PARTS) {
+      parts = alternatives.map((terms) => formatCondition(terms, 'AND'));
+      report(`Thunderbird cannot mix "all of" and "any of", so the filter was split into ${parts.length} rules`);
+    } else {
+      report(
+        `Thunderbird cannot mix "all of" and "any of", and splitting the filter would take ${alternatives.length} rules, so it was not exported`,
+        true
+      );
+      continue;
+    }
+
+    const actions: [string, string | null][] = [];
+    if (filter.flags.includes(SEEN_FLAG)) actions.push(['Mark read', null]);
+    if (filter.flags.includes(FLAGGED_FLAG)) actions.push(['Mark flagged', null]);
+    const systemFlags = filter.flags.filter((f) => f.startsWith('\\') && f !== SEEN_FLAG && f !== FLAGGED_FLAG);
+    if (systemFlags.length > 0) report(`Thunderbird filters cannot set ${systemFlags.join(', ')}; left out`);
+    // Custom flags are IMAP keywords, which is what Thunderbird stores tags as
+    for (const keyword of filter.flags.filter((f) => !f.startsWith('\\'))) {
+      actions.push(['AddTag', keyword.toLowerCase()]);
+    }
+    for (const label of filter.labels) {
+      actions.push(['AddTag', toTagKey(label)]);
+    }
+    if (filter.targetFolder && filter.targetFolder.toLowerCase() !== 'inbox') {
+      actions.push(['Move to folder', folderUri(account, filter.targetFolder)]);
+    }
+    if (filter.stopProcessing && (filter.targetFolder || filter.labels.length > 0)) {
+      actions.push(['Stop execution', null]);
+    }
+    if (filter.expirationDays !== null) report('Thunderbird filters cannot expire messages; the expiration was left out');
+    if (filter.vacation) report('Thunderbird filters cannot send auto-replies; the auto-reply was left out');
+    if (filter.addYearLabel || filter.dateLabel) report('Thunderbird cannot compute date labels; they were left out');
+
+    parts.forEach((condition, index) => {
+      const name = parts.length > 1 ? `${filter.name} (${index + 1}/${parts.length})` : filter.name;
+      lines.push(
+        formatAttribute('name', name),
+        formatAttribute('enabled', filter.enabled ? 'yes' : 'no'),
+        formatAttribute('type', String(FILTER_TYPE))
+      );
+      for (const [action, value] of actions) {
+        lines.push(formatAttribute('action', action));
+        if (value !== null) lines.push(formatAttribute('actionValue', value));
+      }
+      lines.push(formatAttribute('condition', condition));
+    });
+    exported++;
+  }
+
+  return { rules: lines.join('\n') + '\n', exported, issues };
+}
@@ -1,18 +1,24 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Routes, Route, Link, useParams, useNavigate, useLocation } from 'react-router-dom';
-import { Container, Typography, Box, FormControl, Select, MenuItem, SelectChangeEvent, Tabs, Tab } from '@mui/material';
+import { Container, Typography, Box, FormControl, Select, MenuItem, SelectChangeEvent, Tabs, Tab, Alert } from '@mui/material';
 import { GridRowSelectionModel, GridSortModel } from '@mui/x-data-grid';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import FiltersTable from './components/FiltersTable';
 import FilterForm from './components/FilterForm';
 import ConfirmDialog from './components/ConfirmDialog';
 import ReportsPage from './components/ReportsPage';
+import SimulatorPage from './components/SimulatorPage';
+import RegistryPage from './components/RegistryPage';
 import { Filter } from './types';
-import { fetchFilters, fetchUsers, deleteFilters, Database } from './api/filters';
+import { fetchFilters, fetchUsers, deleteFilters, fetchRegistry, Database, Registry } from './api/filters';
+
+const EMPTY_REGISTRY: Registry = { folders: [], labels: [] };
 
 interface ListPageProps {
   filters: Filter[];
+  registry: Registry;
   loading: boolean;
+  loadError: string | null;
   users: string[];
   database: Database;
   pageSize: number;
@@ -29,12 +35,16 @@ interface ListPageProps {
   onSortModelChange: (model: GridSortModel) => void;
   onSelectedReportIdChange: (id: string) => void;
   onDeleteSelected: (ids: string[]) => void;
+  onFiltersImported: (filters: Filter[]) => void;
+  onFiltersReordered: (filters: Filter[]) => void;
+  onFiltersUpdated: (filters: Filter[]) => void;
+  onRegistryChanged: (registry: Registry) => void;
 }
 
-function ListPage({ filters, loading, users, database, pageSize, page, searchQuery, selectedIds, sortModel, selectedReportId, onDatabaseChange, onPageSizeChange, onPageChange, onSearchQueryChange, onSelectedIdsChange, onSortModelChange, onSelectedReportIdChange, onDeleteSelected }: ListPageProps) {
+function ListPage({ filters, registry, loading, loadError, users, database, pageSize, page, searchQuery, selectedIds, sortModel, selectedReportId, onDatabaseChange, onPageSizeChange, onPageChange, onSearchQueryChange, onSelectedIdsChange, onSortModelChange, onSelectedReportIdChange, onDeleteSelected, onFiltersImported, onFiltersReordered, onFiltersUpdated, onRegistryChanged }: ListPageProps) {
   const navigate = useNavigate();
   const location = useLocation();
-  const currentTab = location.pathname === '/reports' ? '/reports' : '/';
+  const currentTab = ['/reports', '/simulator', '/folders'].includes(location.pathname) ? location.pathname : '/';
 
   const handleDatabaseChange = (event: SelectChangeEvent) => {
     onDatabaseChange(event.target.value as Database);
@@ -53,6 +63,8 @@ function ListPage({ filters, loading, users, database, pageSize, page, searchQue
         <Tabs value={currentTab} onChange={handleTabChange}>
           <Tab label="Filters" value="/" />
           <Tab label="Reports" value="/reports" />
+          <Tab label="Simulator" value="/simulator" />
+          <Tab label="Folders & Labels" value="/folders" />
         </Tabs>
         <FormControl size="small" sx={{ minWidth: 120 }}>
           <Select value={database} onChange={handleDatabaseChange}>
@@ -64,9 +76,16 @@ function ListPage({ filters, loading, users, database, pageSize, page, searchQue
           </Select>
         </FormControl>
       </Box>
+      {loadError && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {loadError}
+        </Alert>
+      )}
       {currentTab === '/' ? (
         <FiltersTable
           filters={filters}
+          database={database}
+          registry={registry}
           loading={loading}
           pageSize={pageSize}
           page={page}
@@ -79,13 +98,25 @@ function ListPage({ filters, loading, users, database, pageSize, page, searchQue
           onSelectedIdsChange={onSelectedIdsChange}
           onSortModelChange={onSortModelChange}
           onDeleteSelected={onDeleteSelected}
+          onFiltersImported={onFiltersImported}
+          onFiltersReordered={onFiltersReordered}
+          onFiltersUpdated={onFiltersUpdated}
         />
-      ) : (
+      ) : currentTab === '/reports' ? (
         <ReportsPage
           filters={filters}
           selectedReportId={selectedReportId}
           onSelectedReportIdChange={onSelectedReportIdChange}
         />
+      ) : currentTab === '/simulator' ? (
+        <SimulatorPage filters={filters} database={database} />
+      ) : (
+        <RegistryPage
+          database={database}
+          registry={registry}
+          onRegistryChanged={onRegistryChanged}
+          onFiltersUpdated={onFiltersUpdated}
+        />
       )}
     </Container>
   );
@@ -93,13 +124,14 @@ function ListPage({ filters, loading, users, database, pageSize, page, searchQue
 
 interface FormPageProps {
   filters: Filter[];
+  registry: Registry;
   database: Database;
   onFilterCreated: (filter: Filter) => void;
   onFilterUpdated: (filter: Filter) => void;
   onFilterDeleted: (id: string) => void;
 }
 
-function FormPage({ filters, database, onFilterCreated, onFilterUpdated, onFilterDeleted }: FormPageProps) {
+function FormPage({ filters, registry, database, onFilterCreated, onFilterUpdated, onFilterDeleted }: FormPageProps) {
   const navigate = useNavigate();
   const location = useLocation();
   const { id } = useParams<{ id: string }>();
@@ -110,30 +142,20 @@ function FormPage({ filters, database, onFilterCreated, onFilterUpdated, onFilte
 
   const returnTo = (location.state as { returnTo?: string })?.returnTo || '/';
 
-  // Compute unique labels from all other filters (excluding current filter if editing)
-  const availableLabels = Array.from(
-    new Set(filters.filter((f) => f.id !== id).flatMap((f) => f.labels))
-  ).sort();
-
-  // Compute unique folders from all filters
-  const availableFolders = Array.from(
-    new Set(filters.map((f) => f.targetFolder).filter((f) => f !== ''))
-  ).sort();
+  // Folders and labels come from the registry, which also covers unused ones
+  const availableLabels = registry.labels.map((l) => l.name);
+  const availableFolders = registry.folders.map((f) => f.path);
 
   // Get existing filter names, excluding the current filter if editing
   const existingFilterNames = filters
     .filter((f) => f.id !== id)
     .map((f) => f.name);
 
-  // Get folder leaf names from all other filters for system-wide conflict validation
-  const existingFolderLeafNames = filters
-    .filter((f) => f.id !== id)
-    .map((f) => {
-      if (!f.targetFolder) return '';
-      const parts = f.targetFolder.split('/');
-      return parts[parts.length - 1];
-    })
-    .filter((name) => name !== '');
+  // Get folder leaf names from the registry for conflict validation
+  const existingFolderLeafNames = registry.folders.map((f) => {
+    const parts = f.path.split('/');
+    return parts[parts.length - 1];
+  });
 
   const handleBackClick = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -170,7 +192,7 @@ function FormPage({ filters, database, onFilterCreated, onFilterUpdated, onFilte
         >
           <ArrowBackIcon fontSize="small" />
           <Typography variant="body2">
-            {returnTo === '/reports' ? 'Back to reports' : 'Back to filters'}
+            {returnTo === '/reports' ? 'Back to reports' : returnTo === '/simulator' ? 'Back to simulator' : 'Back to filters'}
           </Typography>
         </Link>
         <Typography variant="h4" component="h1" color="primary" fontWeight="bold">
@@ -222,7 +244,9 @@ function App() {
   const [database, setDatabase] = useState<Database>('');
   const [pageSizes, setPageSizes] = useState<Record<string, number>>(getStoredPageSizes);
   const [filters, setFilters] = useState<Filter[]>([]);
+  const [registry, setRegistry] = useState<Registry>(EMPTY_REGISTRY);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [pendingDeleteIds, setPendingDeleteIds] = useState<string[]>([]);
 
@@ -266,12 +290,24 @@ function App() {
   useEffect(() => {
     if (!database) return;
     setLoading(true);
+    setLoadError(null);
     fetchFilters(database)
       .then(setFilters)
-      .catch(console.error)
+      .catch((error: Error) => {
+        console.error(error);
+        // Keep the stale list out of view; saving over it is refused anyway
+        setFilters([]);
+        setLoadError(error.message);
+      })
       .finally(() => setLoading(false));
   }, [database]);
 
+  // Saving filters can add folders and labels, so follow every change
+  useEffect(() => {
+    if (!database) return;
+    fetchRegistry(database).then(setRegistry).catch(console.error);
+  }, [database, filters]);
+
   const handleDatabaseChange = (db: Database) => {
     setDatabase(db);
     localStorage.setItem(STORAGE_KEY, db);
@@ -289,6 +325,18 @@ function App() {
     setFilters((prev) => prev.filter((f) => f.id !== id));
   };
 
+  const handleFiltersImported = (imported: Filter[]) => {
+    setFilters((prev) => [...prev, ...imported]);
+  };
+
+  const handleFiltersUpdated = (updated: Filter[]) => {
+    setFilters((prev) => prev.map((f) => updated.find((u) => u.id === f.id) ?? f));
+  };
+
+  const handleFiltersReordered = (reordered: Filter[]) => {
+    setFilters(reordered);
+  };
+
   const handleDeleteSelected = (ids: string[]) => {
     setPendingDeleteIds(ids);
     setDeleteDialogOpen(true);
@@ -319,7 +367,9 @@ function App() {
           element={
             <ListPage
               filters={filters}
+              registry={registry}
               loading={loading}
+              loadError={loadError}
               users={users}
               database={database}
               pageSize={pageSize}
@@ -336,6 +386,10 @@ function App() {
               onSortModelChange={handleSortModelChange}
               onSelectedReportIdChange={setSelectedReportId}
               onDeleteSelected={handleDeleteSelected}
+              onFiltersImported={handleFiltersImported}
+              onFiltersReordered={handleFiltersReordered}
+              onFiltersUpdated={handleFiltersUpdated}
+              onRegistryChanged={setRegistry}
             />
           }
         />
@@ -344,7 +398,71 @@ function App() {
           element={
             <ListPage
               filters={filters}
+              registry={registry}
+              loading={loading}
+              loadError={loadError}
+              users={users}
+              database={database}
+              pageSize={pageSize}
+              page={page}
+              searchQuery={searchQuery}
+              selectedIds={selectedIds}
+              sortModel={sortModel}
+              selectedReportId={selectedReportId}
+              onDatabaseChange={handleDatabaseChange}
+              onPageSizeChange={handlePageSizeChange}
+              onPageChange={handlePageChange}
+              onSearchQueryChange={handleSearchQueryChange}
+              onSelectedIdsChange={handleSelectedIdsChange}
+              onSortModelChange={handleSortModelChange}
+              onSelectedReportIdChange={setSelectedReportId}
+              onDeleteSelected={handleDeleteSelected}
+              onFiltersImported={handleFiltersImported}
+              onFiltersReordered={handleFiltersReordered}
+              onFiltersUpdated={handleFiltersUpdated}
+              onRegistryChanged={setRegistry}
+            />
+          }
+        />
+        <Route
+          path="/simulator"
+          element={
+            <ListPage
+              filters={filters}
+              registry={registry}
+              loading={loading}
+              loadError={loadError}
+              users={users}
+              database={database}
+              pageSize={pageSize}
+              page={page}
+              searchQuery={searchQuery}
+              selectedIds={selectedIds}
+              sortModel={sortModel}
+              selectedReportId={selectedReportId}
+              onDatabaseChange={handleDatabaseChange}
+              onPageSizeChange={handlePageSizeChange}
+              onPageChange={handlePageChange}
+              onSearchQueryChange={handleSearchQueryChange}
+              onSelectedIdsChange={handleSelectedIdsChange}
+              onSortModelChange={handleSortModelChange}
+              onSelectedReportIdChange={setSelectedReportId}
+              onDeleteSelected={handleDeleteSelected}
+              onFiltersImported={handleFiltersImported}
+              onFiltersReordered={handleFiltersReordered}
+              onFiltersUpdated={handleFiltersUpdated}
+              onRegistryChanged={setRegistry}
+            />
+          }
+        />
+        <Route
+          path="/folders"
+          element={
+            <ListPage
+              filters={filters}
+              registry={registry}
               loading={loading}
+              loadError={loadError}
               users={users}
               database={database}
               pageSize={pageSize}
@@ -361,6 +479,10 @@ function App() {
               onSortModelChange={handleSortModelChange}
               onSelectedReportIdChange={setSelectedReportId}
               onDeleteSelected={handleDeleteSelected}
+              onFiltersImported={handleFiltersImported}
+              onFiltersReordered={handleFiltersReordered}
+              onFiltersUpdated={handleFiltersUpdated}
+              onRegistryChanged={setRegistry}
             />
           }
         />
@@ -369,6 +491,7 @@ function App() {
           element={
             <FormPage
               filters={filters}
+              registry={registry}
               database={database}
               onFilterCreated={handleFilterCreated}
               onFilterUpdated={handleFilterUpdated}
@@ -381,6 +504,7 @@ function App() {
           element={
             <FormPage
               filters={filters}
+              registry={registry}
               database={database}
               onFilterCreated={handleFilterCreated}
               onFilterUpdated={handleFilterUpdated}
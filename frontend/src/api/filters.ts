@@ -1,4 +1,7 @@
-import { Filter } from '../types';
+import { Filter, FilterSettings, BulkEdit } from '../types';
+import type { LookupResult } from '../../../shared/addressLookup';
+
+export type { LookupResult };
 
 export type Database = string;
 
@@ -11,21 +14,13 @@ export async function fetchUsers(): Promise<string[]> {
   return data.users;
 }
 
-export interface CreateFilterData {
-  name: string;
-  fromAddresses: string[];
-  toAddress: string;
-  expirationDays: number | null;
-  markRead: boolean;
-  addYearLabel: boolean;
-  targetFolder: string;
-  labels: string[];
-}
+export type CreateFilterData = FilterSettings;
 
 export async function fetchFilters(db: Database): Promise<Filter[]> {
   const response = await fetch(`/api/filters?db=${db}`);
   if (!response.ok) {
-    throw new Error('Failed to fetch filters');
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to fetch filters');
   }
   const data = await response.json();
   return data.map((filter: Filter & { updatedAt: string }) => ({
@@ -43,7 +38,8 @@ export async function createFilter(db: Database, data: CreateFilterData): Promis
     body: JSON.stringify(data),
   });
   if (!response.ok) {
-    throw new Error('Failed to create filter');
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to create filter');
   }
   const filter = await response.json();
   return {
@@ -73,7 +69,23 @@ export async function updateFilter(db: Database, id: string, data: CreateFilterD
     body: JSON.stringify(data),
   });
   if (!response.ok) {
-    throw new Error('Failed to update filter');
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update filter');
+  }
+  const filter = await response.json();
+  return {
+    ...filter,
+    updatedAt: new Date(filter.updatedAt),
+  };
+}
+
+// Record the filter's current script as the one pasted into Proton Mail
+export async function markFilterDeployed(db: Database, id: string): Promise<Filter> {
+  const response = await fetch(`/api/filters/${id}/deployed?db=${db}`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    throw new Error('Failed to mark filter as deployed');
   }
   const filter = await response.json();
   return {
@@ -95,3 +107,373 @@ export async function deleteFilters(db: Database, ids: string[]): Promise<{ dele
   }
   return response.json();
 }
+
+export async function setFiltersEnabled(db: Database, ids: string[], enabled: boolean): Promise<Filter[]> {
+  const response = await fetch(`/api/filters/enabled?db=${db}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ids, enabled }),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to update filters');
+  }
+  const data = await response.json();
+  return data.map((filter: Filter & { updatedAt: string }) => ({
+    ...filter,
+    updatedAt: new Date(filter.updatedAt),
+  }));
+}
+
+// Make the same changes to several filters; if any of them fails the checks, none change
+export async function bulkEditFilters(db: Database, ids: string[], changes: BulkEdit): Promise<Filter[]> {
+  const response = await fetch(`/api/filters?db=${db}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ids, changes }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to edit filters');
+  }
+  const data = await response.json();
+  return data.map((filter: Filter & { updatedAt: string }) => ({
+    ...filter,
+    updatedAt: new Date(filter.updatedAt),
+  }));
+}
+
+// Save a new priority order; ids must list every filter in the database
+export async function reorderFilters(db: Database, ids: string[]): Promise<Filter[]> {
+  const response = await fetch(`/api/filters/order?db=${db}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ids }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to reorder filters');
+  }
+  const data = await response.json();
+  return data.map((filter: Filter & { updatedAt: string }) => ({
+    ...filter,
+    updatedAt: new Date(filter.updatedAt),
+  }));
+}
+
+// Part of an imported script or file that could not be mapped to filter settings
+export interface ImportIssue {
+  line: number;
+  source: string;
+  message: string;
+  filterIndex?: number;
+}
+
+export interface ImportPreview {
+  filters: CreateFilterData[];
+  issues: ImportIssue[];
+  errors: { filterIndex: number; error: string }[];
+}
+
+export async function previewSieveImport(db: Database, script: string): Promise<ImportPreview> {
+  const response = await fetch(`/api/filters/import/sieve?db=${db}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ script, dryRun: true }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to parse Sieve script');
+  }
+  return response.json();
+}
+
+export async function importSieveScript(db: Database, script: string): Promise<Filter[]> {
+  const response = await fetch(`/api/filters/import/sieve?db=${db}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ script }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to import Sieve script');
+  }
+  const data = await response.json();
+  return data.created.map((filter: Filter & { updatedAt: string }) => ({
+    ...filter,
+    updatedAt: new Date(filter.updatedAt),
+  }));
+}
+
+export async function previewGmailImport(db: Database, xml: string): Promise<ImportPreview> {
+  const response = await fetch(`/api/filters/import/gmail?db=${db}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ xml, dryRun: true }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to read Gmail filters');
+  }
+  return response.json();
+}
+
+export async function importGmailFilters(db: Database, xml: string): Promise<Filter[]> {
+  const response = await fetch(`/api/filters/import/gmail?db=${db}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ xml }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to import Gmail filters');
+  }
+  const data = await response.json();
+  return data.created.map((filter: Filter & { updatedAt: string }) => ({
+    ...filter,
+    updatedAt: new Date(filter.updatedAt),
+  }));
+}
+
+// Something the target client cannot express; skipped filters were left out
+export interface ExportIssue {
+  filterId?: string;
+  filterName?: string;
+  message: string;
+  skipped: boolean;
+}
+
+export interface GmailExportResult {
+  xml: string;
+  exported: number;
+  issues: ExportIssue[];
+}
+
+export async function exportGmailFilters(db: Database): Promise<GmailExportResult> {
+  const response = await fetch(`/api/filters/export/gmail?db=${db}`);
+  if (!response.ok) {
+    throw new Error('Failed to export Gmail filters');
+  }
+  return response.json();
+}
+
+export interface ThunderbirdExportResult {
+  rules: string;
+  exported: number;
+  issues: ExportIssue[];
+}
+
+// account is the Bridge account's folder URI, such as imap://alice%40proton.me@127.0.0.1
+export async function exportThunderbirdFilters(db: Database, account: string): Promise<ThunderbirdExportResult> {
+  const response = await fetch(`/api/filters/export/thunderbird?db=${db}&account=${encodeURIComponent(account)}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to export Thunderbird filters');
+  }
+  return response.json();
+}
+
+// Which filters mail from an address would run; the recipient is optional
+export async function lookupAddress(db: Database, address: string, recipient: string): Promise<LookupResult> {
+  const params = new URLSearchParams({ db, address });
+  if (recipient) params.set('recipient', recipient);
+  const response = await fetch(`/api/lookup?${params}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to look up address');
+  }
+  const data = await response.json();
+  return data;
+}
+
+export async function fetchCombinedSieveScript(db: Database): Promise<string> {
+  const response = await fetch(`/api/filters/sieve?db=${db}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch Sieve script');
+  }
+  return response.text();
+}
+
+export interface SieveServerStatus {
+  configured: boolean;
+  host?: string;
+  port?: number;
+  username?: string;
+  tls?: 'starttls' | 'none';
+  scriptName?: string;
+}
+
+export async function fetchSieveServer(db: Database): Promise<SieveServerStatus> {
+  const response = await fetch(`/api/managesieve?db=${db}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch ManageSieve settings');
+  }
+  return response.json();
+}
+
+export interface SieveDeployResult {
+  scriptName: string;
+  warnings: string | null;
+  scripts: { name: string; active: boolean }[];
+  deployedAt: string;
+}
+
+export async function deploySieveScript(db: Database): Promise<SieveDeployResult> {
+  const response = await fetch(`/api/managesieve/deploy?db=${db}`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to deploy Sieve script');
+  }
+  return response.json();
+}
+
+export interface ImapServerStatus {
+  configured: boolean;
+  host?: string;
+  port?: number;
+  username?: string;
+  tls?: 'starttls' | 'implicit' | 'none';
+}
+
+export async function fetchImapServer(db: Database): Promise<ImapServerStatus> {
+  const response = await fetch(`/api/imap?db=${db}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch IMAP settings');
+  }
+  return response.json();
+}
+
+// A folder or label some filters file into, and its mailbox in the account
+export interface MailboxReference {
+  name: string;
+  mailbox: string;
+  filters: string[];
+}
+
+export interface MailboxSyncReport {
+  delimiter: string;
+  missingFolders: MailboxReference[];
+  missingLabels: MailboxReference[];
+  unusedFolders: string[];
+  unusedLabels: string[];
+  // LIST responses from the server that could not be read
+  unreadable: string[];
+}
+
+export async function checkMailboxes(db: Database): Promise<MailboxSyncReport> {
+  const response = await fetch(`/api/imap/mailboxes?db=${db}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to check folders and labels');
+  }
+  return response.json();
+}
+
+export async function createMissingMailboxes(db: Database): Promise<{ created: string[]; report: MailboxSyncReport }> {
+  const response = await fetch(`/api/imap/mailboxes?db=${db}`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to create folders and labels');
+  }
+  return response.json();
+}
+
+export interface RegistryFolder {
+  path: string;
+  // Filters that file into the folder or a folder under it
+  filterCount: number;
+}
+
+export interface RegistryLabel {
+  name: string;
+  color: string | null;
+  filterCount: number;
+}
+
+// The folders and labels in the user's mailbox, used by filters or not
+export interface Registry {
+  folders: RegistryFolder[];
+  labels: RegistryLabel[];
+}
+
+// A registry change, with the filters a rename or merge updated
+export interface RegistryUpdate {
+  registry: Registry;
+  filters: Filter[];
+}
+
+export async function fetchRegistry(db: Database): Promise<Registry> {
+  const response = await fetch(`/api/registry?db=${db}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch folders and labels');
+  }
+  return response.json();
+}
+
+async function changeRegistry(db: Database, path: string, method: string, body: object): Promise<RegistryUpdate> {
+  const response = await fetch(`/api/registry/${path}?db=${db}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update folders and labels');
+  }
+  const data = await response.json();
+  return {
+    registry: data.registry,
+    filters: data.filters.map((filter: Filter & { updatedAt: string }) => ({
+      ...filter,
+      updatedAt: new Date(filter.updatedAt),
+    })),
+  };
+}
+
+export function addRegistryFolder(db: Database, path: string): Promise<RegistryUpdate> {
+  return changeRegistry(db, 'folders', 'POST', { path });
+}
+
+export function addRegistryLabel(db: Database, name: string, color: string | null): Promise<RegistryUpdate> {
+  return changeRegistry(db, 'labels', 'POST', { name, color });
+}
+
+export function setRegistryLabelColor(db: Database, name: string, color: string | null): Promise<RegistryUpdate> {
+  return changeRegistry(db, 'labels/color', 'PUT', { name, color });
+}
+
+// Renaming onto an existing folder or label merges the two when merge is set
+export function renameRegistryFolder(db: Database, from: string, to: string, merge: boolean): Promise<RegistryUpdate> {
+  return changeRegistry(db, 'folders/rename', 'PUT', { from, to, merge });
+}
+
+export function renameRegistryLabel(db: Database, from: string, to: string, merge: boolean): Promise<RegistryUpdate> {
+  return changeRegistry(db, 'labels/rename', 'PUT', { from, to, merge });
+}
+
+export function deleteRegistryFolder(db: Database, path: string): Promise<RegistryUpdate> {
+  return changeRegistry(db, 'folders', 'DELETE', { path });
+}
+
+export function deleteRegistryLabel(db: Database, name: string): Promise<RegistryUpdate> {
+  return changeRegistry(db, 'labels', 'DELETE', { name });
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Link,
+  Alert,
+  Chip,
+  Stack,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import { lookupAddress, Database, LookupResult } from '../api/filters';
+
+interface AddressLookupProps {
+  database: Database;
+  onFilterClick: (filterId: string) => void;
+}
+
+export default function AddressLookup({ database, onFilterClick }: AddressLookupProps) {
+  const [address, setAddress] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [result, setResult] = useState<LookupResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleLookup = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setResult(await lookupAddress(database, address.trim(), recipient.trim()));
+    } catch (err) {
+      setResult(null);
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter' && address.trim()) {
+      handleLookup();
+    }
+  };
+
+  const certainMatches = result ? result.matches.filter((m) => m.certain) : [];
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Enter a sender, and optionally a recipient, to see which filters handle their mail.
+      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+        <TextField
+          size="small"
+          label="From"
+          placeholder="newsletter@shop.com"
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          onKeyDown={handleKeyDown}
+          sx={{ minWidth: 280 }}
+        />
+        <TextField
+          size="small"
+          label="To (optional)"
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value)}
+          onKeyDown={handleKeyDown}
+          sx={{ minWidth: 240 }}
+        />
+        <Button variant="contained" startIcon={<SearchIcon />} onClick={handleLookup} disabled={busy || !address.trim()}>
+          Look Up
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      {result && (
+        <Stack spacing={3}>
+          {certainMatches.length === 0 ? (
+            <Alert severity="warning">No filter certainly matches this address. Its mail would stay in the Inbox.</Alert>
+          ) : (
+            <Alert severity="info">
+              Mail goes to {result.folder ? `"${result.folder}"` : 'the Inbox'}
+              {result.labels.length > 0 && ` with ${result.labels.map((l) => `"${l}"`).join(', ')}`}.
+            </Alert>
+          )}
+
+          {result.matches.length > 0 && (
+            <TableContainer component={Paper}>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>#</TableCell>
+                    <TableCell>Matching Filter</TableCell>
+                    <TableCell>Why</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.matches.map((match) => (
+                    <TableRow key={match.id} hover>
+                      <TableCell>{match.position}</TableCell>
+                      <TableCell>
+                        <Link component="button" variant="body2" onClick={() => onFilterClick(match.id)} sx={{ textAlign: 'left' }}>
+                          {match.name}
+                        </Link>
+                        {!match.certain && <Chip label="Maybe" size="small" sx={{ ml: 1 }} />}
+                        {match.certain && match.stops && <Chip label="Stops" size="small" sx={{ ml: 1 }} />}
+                      </TableCell>
+                      <TableCell>{match.reasons.join('; ')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+          {result.matches.some((m) => !m.certain) && (
+            <Typography variant="body2" color="text.secondary">
+              Filters marked Maybe also test the subject, other headers or the recipient, so they are not counted
+              above.
+            </Typography>
+          )}
+        </Stack>
+      )}
+    </Box>
+  );
+}
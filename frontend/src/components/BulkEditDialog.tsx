@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Autocomplete,
+  MenuItem,
+  Stack,
+  Alert,
+  Typography,
+} from '@mui/material';
+import { Filter, BulkEdit } from '../types';
+import { bulkEditFilters, Database } from '../api/filters';
+
+interface BulkEditDialogProps {
+  open: boolean;
+  database: Database;
+  filters: Filter[];
+  availableLabels: string[];
+  availableFolders: string[];
+  onClose: () => void;
+  onSaved: (filters: Filter[]) => void;
+}
+
+// What to do with a setting on every selected filter
+type Change = 'keep' | 'set' | 'clear';
+
+interface EditState {
+  addLabels: string[];
+  removeLabels: string[];
+  folder: Change;
+  targetFolder: string;
+  expiration: Change;
+  expirationDays: string;
+  markRead: Change;
+  addYearLabel: Change;
+}
+
+const INITIAL_STATE: EditState = {
+  addLabels: [],
+  removeLabels: [],
+  folder: 'keep',
+  targetFolder: '',
+  expiration: 'keep',
+  expirationDays: '',
+  markRead: 'keep',
+  addYearLabel: 'keep',
+};
+
+function toBulkEdit(state: EditState): BulkEdit {
+  const edit: BulkEdit = {};
+  if (state.addLabels.length > 0) edit.addLabels = state.addLabels;
+  if (state.removeLabels.length > 0) edit.removeLabels = state.removeLabels;
+  if (state.folder !== 'keep') edit.targetFolder = state.folder === 'set' ? state.targetFolder.trim() : '';
+  if (state.expiration !== 'keep') {
+    edit.expirationDays = state.expiration === 'set' ? parseInt(state.expirationDays, 10) : null;
+  }
+  if (state.markRead !== 'keep') edit.markRead = state.markRead === 'set';
+  if (state.addYearLabel !== 'keep') edit.addYearLabel = state.addYearLabel === 'set';
+  return edit;
+}
+
+function ChangeSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: Change;
+  options: Record<Change, string>;
+  onChange: (value: Change) => void;
+}) {
+  return (
+    <TextField select label={label} value={value} onChange={(e) => onChange(e.target.value as Change)} size="small" fullWidth>
+      {(Object.keys(options) as Change[]).map((option) => (
+        <MenuItem key={option} value={option}>
+          {options[option]}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+}
+
+export default function BulkEditDialog({
+  open,
+  database,
+  filters,
+  availableLabels,
+  availableFolders,
+  onClose,
+  onSaved,
+}: BulkEditDialogProps) {
+  const [state, setState] = useState<EditState>(INITIAL_STATE);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const update = (changes: Partial<EditState>) => {
+    setState((prev) => ({ ...prev, ...changes }));
+    setError(null);
+  };
+
+  // Only labels some selected filter has can be removed
+  const selectedLabels = Array.from(new Set(filters.flatMap((f) => f.labels))).sort();
+  const edit = toBulkEdit(state);
+  const invalidExpiration = state.expiration === 'set' && !(parseInt(state.expirationDays, 10) >= 1);
+  const missingFolder = state.folder === 'set' && !state.targetFolder.trim();
+  const canSave = Object.keys(edit).length > 0 && !invalidExpiration && !missingFolder && !saving;
+
+  const handleClose = () => {
+    setState(INITIAL_STATE);
+    setError(null);
+    onClose();
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      onSaved(await bulkEditFilters(database, filters.map((f) => f.id), edit));
+      handleClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Edit {filters.length} {filters.length === 1 ? 'Filter' : 'Filters'}
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Only the settings you change here are applied. If any filter cannot take the changes, none are saved.
+        </Typography>
+        <Stack spacing={2}>
+          <Autocomplete
+            multiple
+            freeSolo
+            options={availableLabels}
+            value={state.addLabels}
+            onChange={(_, newValue) => update({ addLabels: newValue })}
+            renderInput={(params) => <TextField {...params} label="Add labels" size="small" />}
+          />
+          <Autocomplete
+            multiple
+            options={selectedLabels}
+            value={state.removeLabels}
+            onChange={(_, newValue) => update({ removeLabels: newValue })}
+            renderInput={(params) => <TextField {...params} label="Remove labels" size="small" />}
+          />
+          <ChangeSelect
+            label="Target folder"
+            value={state.folder}
+            options={{ keep: 'Leave unchanged', set: 'Move to folder', clear: 'Keep in Inbox' }}
+            onChange={(folder) => update({ folder })}
+          />
+          {state.folder === 'set' && (
+            <Autocomplete
+              freeSolo
+              options={availableFolders}
+              value={state.targetFolder}
+              onChange={(_, newValue) => update({ targetFolder: newValue ?? '' })}
+              onInputChange={(_, newValue) => update({ targetFolder: newValue })}
+              renderInput={(params) => <TextField {...params} label="Folder" placeholder="Folder path" size="small" />}
+            />
+          )}
+          <ChangeSelect
+            label="Expiration"
+            value={state.expiration}
+            options={{ keep: 'Leave unchanged', set: 'Expire after', clear: 'Never expire' }}
+            onChange={(expiration) => update({ expiration })}
+          />
+          {state.expiration === 'set' && (
+            <TextField
+              label="Expiration (days)"
+              type="number"
+              value={state.expirationDays}
+              onChange={(e) => update({ expirationDays: e.target.value })}
+              error={invalidExpiration && state.expirationDays !== ''}
+              size="small"
+              slotProps={{ htmlInput: { min: 1 } }}
+            />
+          )}
+          <ChangeSelect
+            label="Mark as read"
+            value={state.markRead}
+            options={{ keep: 'Leave unchanged', set: 'On', clear: 'Off' }}
+            onChange={(markRead) => update({ markRead })}
+          />
+          <ChangeSelect
+            label="Year label"
+            value={state.addYearLabel}
+            options={{ keep: 'Leave unchanged', set: 'On', clear: 'Off' }}
+            onChange={(addYearLabel) => update({ addYearLabel })}
+          />
+        </Stack>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" disabled={!canSave}>
+          {saving ? 'Saving...' : 'Apply'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
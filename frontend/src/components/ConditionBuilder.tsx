@@ -0,0 +1,354 @@
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import {
+  ConditionNode,
+  AddressCondition,
+  SubjectCondition,
+  HeaderCondition,
+  AddressEntry,
+  AddressMatchMode,
+  MatchType,
+  AllOfCondition,
+  AnyOfCondition,
+} from '../types';
+import { ADDRESS_MODE_LABELS } from '../utils/conditions';
+
+export type ConditionGroup = AllOfCondition | AnyOfCondition;
+type ConditionTest = AddressCondition | SubjectCondition | HeaderCondition;
+type TestField = AddressCondition['header'] | 'subject' | 'header';
+
+// Suggestions for custom header tests; any header name can be typed
+const COMMON_HEADERS = ['List-Id', 'List-Unsubscribe', 'Reply-To', 'Sender', 'X-Mailer', 'X-Original-To', 'Delivered-To', 'Precedence'];
+
+function createAddressEntry(): AddressEntry {
+  return { value: '', mode: 'exact' };
+}
+
+export function createAddressCondition(header: AddressCondition['header'] = 'from'): AddressCondition {
+  return { type: 'address', header, entries: [createAddressEntry()] };
+}
+
+export function createConditionGroup(): ConditionGroup {
+  return { type: 'allof', children: [createAddressCondition()] };
+}
+
+// Drop empty entries, tests and groups left over from editing
+export function cleanConditions(node: ConditionNode): ConditionNode | null {
+  switch (node.type) {
+    case 'address': {
+      const entries = node.entries
+        .map((entry) => ({ ...entry, value: entry.value.trim() }))
+        .filter((entry) => entry.value !== '');
+      return entries.length > 0 ? { ...node, entries } : null;
+    }
+    case 'subject':
+    case 'header': {
+      // Leading and trailing spaces can matter in a subject match, so only drop blank entries
+      const values = node.values.filter((v) => v.trim() !== '');
+      if (values.length === 0) return null;
+      return node.type === 'header' ? { ...node, name: node.name.trim(), values } : { ...node, values };
+    }
+    case 'allof':
+    case 'anyof': {
+      const children = node.children
+        .map(cleanConditions)
+        .filter((c): c is ConditionNode => c !== null);
+      return children.length > 0 ? { type: node.type, children } : null;
+    }
+    case 'not': {
+      const child = cleanConditions(node.child);
+      return child ? { type: 'not', child } : null;
+    }
+  }
+}
+
+interface TestEditorProps {
+  node: ConditionTest;
+  onChange: (node: ConditionTest) => void;
+}
+
+const ADDRESS_PLACEHOLDERS: Record<AddressMatchMode, string> = {
+  exact: 'email@example.com',
+  domain: 'example.com',
+  subdomains: 'example.com',
+  localpart: 'newsletter',
+  wildcard: '*@*.example.com',
+  'domain-contains': 'example',
+};
+
+interface ValueListProps<T> {
+  items: T[];
+  addLabel: string;
+  createItem: () => T;
+  renderItem: (item: T, onChange: (item: T) => void) => React.ReactNode;
+  onChange: (items: T[]) => void;
+}
+
+// Editable list of rows with add and remove buttons, keeping at least one row
+function ValueList<T>({ items, addLabel, createItem, renderItem, onChange }: ValueListProps<T>) {
+  const updateItem = (index: number, item: T) => {
+    const next = [...items];
+    next[index] = item;
+    onChange(next);
+  };
+
+  return (
+    <Stack spacing={1} sx={{ flex: 1 }}>
+      {items.map((item, index) => (
+        <Box key={index} sx={{ display: 'flex', gap: 1 }}>
+          {renderItem(item, (next) => updateItem(index, next))}
+          {items.length > 1 && (
+            <IconButton onClick={() => onChange(items.filter((_, i) => i !== index))} color="error" size="small">
+              <DeleteIcon />
+            </IconButton>
+          )}
+        </Box>
+      ))}
+      <Box>
+        <Button startIcon={<AddIcon />} onClick={() => onChange([...items, createItem()])} size="small">
+          {addLabel}
+        </Button>
+      </Box>
+    </Stack>
+  );
+}
+
+// A From/To address test with a match mode per entry, or a Subject or custom
+// header test with one match type for its list of values
+function TestEditor({ node, onChange }: TestEditorProps) {
+  const field: TestField = node.type === 'address' ? node.header : node.type;
+
+  const handleFieldChange = (next: TestField) => {
+    const matchType = node.type === 'address' ? 'contains' : node.matchType;
+    const values = node.type === 'address' ? node.entries.map((e) => e.value) : node.values;
+    if (next === 'subject') {
+      onChange({ type: 'subject', matchType, values });
+    } else if (next === 'header') {
+      onChange({ type: 'header', name: '', matchType, values });
+    } else if (node.type === 'address') {
+      onChange({ ...node, header: next });
+    } else {
+      onChange({ type: 'address', header: next, entries: values.map((value) => ({ value, mode: 'exact' })) });
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, flex: 1, alignItems: 'flex-start' }}>
+      <Select
+        size="small"
+        value={field}
+        onChange={(e) => handleFieldChange(e.target.value as TestField)}
+        sx={{ minWidth: 110 }}
+      >
+        <MenuItem value="from">From</MenuItem>
+        <MenuItem value="to">To</MenuItem>
+        <MenuItem value="subject">Subject</MenuItem>
+        <MenuItem value="header">Header</MenuItem>
+      </Select>
+      {node.type === 'header' && (
+        <Autocomplete
+          freeSolo
+          options={COMMON_HEADERS}
+          value={node.name}
+          onInputChange={(_, name) => onChange({ ...node, name })}
+          sx={{ minWidth: 180 }}
+          renderInput={(params) => <TextField {...params} size="small" placeholder="Header name" />}
+        />
+      )}
+      {node.type === 'address' ? (
+        <ValueList
+          items={node.entries}
+          addLabel="Add Address"
+          createItem={createAddressEntry}
+          onChange={(entries) => onChange({ ...node, entries })}
+          renderItem={(entry, onEntryChange) => (
+            <>
+              <Select
+                size="small"
+                value={entry.mode}
+                onChange={(e) => onEntryChange({ ...entry, mode: e.target.value as AddressMatchMode })}
+                sx={{ minWidth: 190 }}
+              >
+                {(Object.keys(ADDRESS_MODE_LABELS) as AddressMatchMode[]).map((mode) => (
+                  <MenuItem key={mode} value={mode}>
+                    {ADDRESS_MODE_LABELS[mode]}
+                  </MenuItem>
+                ))}
+              </Select>
+              <TextField
+                value={entry.value}
+                onChange={(e) => onEntryChange({ ...entry, value: e.target.value })}
+                placeholder={ADDRESS_PLACEHOLDERS[entry.mode]}
+                fullWidth
+                size="small"
+              />
+            </>
+          )}
+        />
+      ) : (
+        <>
+          <Select
+            size="small"
+            value={node.matchType}
+            onChange={(e) => onChange({ ...node, matchType: e.target.value as MatchType })}
+            sx={{ minWidth: 120 }}
+          >
+            <MenuItem value="contains">contains</MenuItem>
+            <MenuItem value="is">is</MenuItem>
+            <MenuItem value="matches">matches</MenuItem>
+          </Select>
+          <ValueList
+            items={node.values}
+            addLabel="Add Value"
+            createItem={() => ''}
+            onChange={(values) => onChange({ ...node, values })}
+            renderItem={(value, onValueChange) => (
+              <TextField
+                value={value}
+                onChange={(e) => onValueChange(e.target.value)}
+                placeholder={
+                  node.matchType === 'matches'
+                    ? 'Weekly digest * (use * and ? as wildcards)'
+                    : node.type === 'subject'
+                      ? 'Subject text'
+                      : 'Header value'
+                }
+                fullWidth
+                size="small"
+              />
+            )}
+          />
+        </>
+      )}
+    </Box>
+  );
+}
+
+interface ConditionRowProps {
+  node: ConditionNode;
+  depth: number;
+  onChange: (node: ConditionNode) => void;
+  onRemove?: () => void;
+}
+
+// One child of a group. "Not" is shown as a toggle that wraps the child in a not node.
+function ConditionRow({ node, depth, onChange, onRemove }: ConditionRowProps) {
+  const negated = node.type === 'not';
+  const inner = node.type === 'not' ? node.child : node;
+  const setInner = (next: ConditionNode) => onChange(negated ? { type: 'not', child: next } : next);
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+      <FormControlLabel
+        control={
+          <Checkbox
+            size="small"
+            checked={negated}
+            onChange={(e) => onChange(e.target.checked ? { type: 'not', child: inner } : inner)}
+          />
+        }
+        label="Not"
+        sx={{ mr: 0, mt: 0.25 }}
+      />
+      <Box sx={{ flex: 1 }}>
+        {inner.type === 'address' || inner.type === 'subject' || inner.type === 'header' ? (
+          <TestEditor node={inner} onChange={setInner} />
+        ) : inner.type === 'not' ? (
+          <ConditionRow node={inner} depth={depth} onChange={setInner} />
+        ) : (
+          <GroupEditor node={inner} depth={depth + 1} onChange={setInner} />
+        )}
+      </Box>
+      {onRemove && (
+        <IconButton onClick={onRemove} color="error" size="small" sx={{ mt: 0.5 }}>
+          <DeleteIcon />
+        </IconButton>
+      )}
+    </Box>
+  );
+}
+
+interface GroupEditorProps {
+  node: ConditionGroup;
+  depth: number;
+  onChange: (node: ConditionGroup) => void;
+}
+
+function GroupEditor({ node, depth, onChange }: GroupEditorProps) {
+  const updateChild = (index: number, child: ConditionNode) => {
+    const children = [...node.children];
+    children[index] = child;
+    onChange({ ...node, children });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...node, children: node.children.filter((_, i) => i !== index) });
+  };
+
+  const addChild = (child: ConditionNode) => {
+    onChange({ ...node, children: [...node.children, child] });
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, backgroundColor: depth % 2 === 0 ? 'transparent' : 'rgba(255, 255, 255, 0.03)' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          Match
+        </Typography>
+        <Select
+          size="small"
+          value={node.type}
+          onChange={(e) => onChange({ ...node, type: e.target.value as ConditionGroup['type'] })}
+        >
+          <MenuItem value="allof">all of</MenuItem>
+          <MenuItem value="anyof">any of</MenuItem>
+        </Select>
+        <Typography variant="body2" color="text.secondary">
+          the following
+        </Typography>
+      </Box>
+      <Stack spacing={2}>
+        {node.children.map((child, index) => (
+          <ConditionRow
+            key={index}
+            node={child}
+            depth={depth}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        ))}
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button startIcon={<AddIcon />} onClick={() => addChild(createAddressCondition())} size="small">
+            Add Condition
+          </Button>
+          <Button startIcon={<AddIcon />} onClick={() => addChild(createConditionGroup())} size="small">
+            Add Group
+          </Button>
+        </Box>
+      </Stack>
+    </Paper>
+  );
+}
+
+interface ConditionBuilderProps {
+  value: ConditionGroup;
+  onChange: (value: ConditionGroup) => void;
+}
+
+export default function ConditionBuilder({ value, onChange }: ConditionBuilderProps) {
+  return <GroupEditor node={value} depth={0} onChange={onChange} />;
+}
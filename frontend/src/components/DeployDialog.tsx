@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Alert,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  CircularProgress,
+  Box,
+} from '@mui/material';
+import { deploySieveScript, fetchSieveServer, Database, SieveDeployResult, SieveServerStatus } from '../api/filters';
+
+interface DeployDialogProps {
+  open: boolean;
+  database: Database;
+  onClose: () => void;
+}
+
+export default function DeployDialog({ open, database, onClose }: DeployDialogProps) {
+  const [server, setServer] = useState<SieveServerStatus | null>(null);
+  const [result, setResult] = useState<SieveDeployResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchSieveServer(database)
+      .then(setServer)
+      .catch((err: Error) => setError(err.message));
+  }, [open, database]);
+
+  const handleDeploy = async () => {
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      setResult(await deploySieveScript(database));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClose = () => {
+    setServer(null);
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Deploy with ManageSieve</DialogTitle>
+      <DialogContent>
+        {server === null && !error && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {server && !server.configured && (
+          <Alert severity="info">
+            No ManageSieve server is configured for {database}. Add one to <code>config/sieve-servers.json</code>, using{' '}
+            <code>config/sieve-servers.example.json</code> as a template.
+          </Alert>
+        )}
+
+        {server?.configured && (
+          <Typography variant="body2">
+            Upload the combined script of every enabled filter to {server.host}:{server.port} as {server.username}, and
+            make <strong>{server.scriptName}</strong> the active script.
+            {server.tls === 'none' && ' The connection is not encrypted.'}
+          </Typography>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {result && (
+          <>
+            <Alert severity="success" sx={{ mt: 2 }}>
+              Deployed and activated {result.scriptName}.
+            </Alert>
+            {result.warnings && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                {result.warnings}
+              </Alert>
+            )}
+            <Typography variant="subtitle2" sx={{ mt: 2 }}>
+              Scripts on the server
+            </Typography>
+            <List dense>
+              {result.scripts.map((script) => (
+                <ListItem key={script.name} disableGutters>
+                  <ListItemText primary={script.name} secondary={script.active ? 'Active' : null} />
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>{result ? 'Close' : 'Cancel'}</Button>
+        {!result && (
+          <Button onClick={handleDeploy} variant="contained" disabled={!server?.configured || busy}>
+            {busy ? 'Deploying...' : 'Deploy'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import { Alert, List, ListItem, ListItemText } from '@mui/material';
+import { ExportIssue } from '../api/filters';
+
+interface ExportIssuesProps {
+  issues: ExportIssue[];
+}
+
+// Filters left out of an export, then settings dropped from the ones exported
+export default function ExportIssues({ issues }: ExportIssuesProps) {
+  const skipped = issues.filter((issue) => issue.skipped);
+  const dropped = issues.filter((issue) => !issue.skipped);
+
+  return (
+    <>
+      {skipped.length > 0 && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          Not exported:
+          <List dense disablePadding>
+            {skipped.map((issue, index) => (
+              <ListItem key={index} disableGutters>
+                <ListItemText primary={issue.filterName} secondary={issue.message} />
+              </ListItem>
+            ))}
+          </List>
+        </Alert>
+      )}
+
+      {dropped.length > 0 && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          Exported without some settings:
+          <List dense disablePadding>
+            {dropped.map((issue, index) => (
+              <ListItem key={index} disableGutters>
+                <ListItemText primary={issue.filterName ?? 'All filters'} secondary={issue.message} />
+              </ListItem>
+            ))}
+          </List>
+        </Alert>
+      )}
+    </>
+  );
+}
@@ -6,18 +6,25 @@ import {
   Button,
   Checkbox,
   FormControlLabel,
-  IconButton,
   Autocomplete,
   Chip,
   Stack,
   Paper,
   Alert,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Typography,
+  Switch,
 } from '@mui/material';
-import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import { createFilter, updateFilter, deleteFilters, Database } from '../api/filters';
-import { Filter } from '../types';
+import { Filter, ConditionNode, VacationAction } from '../types';
 import ConfirmDialog from './ConfirmDialog';
+import ConditionBuilder, { ConditionGroup, cleanConditions, createConditionGroup } from './ConditionBuilder';
+import { formatDateLabel, getDateLabelTokens } from '../../../shared/dateLabels';
+import { SEEN_FLAG, FLAGGED_FLAG } from '../utils/flags';
 
 // Get the leaf name of a folder path (e.g., "Work/Projects" -> "Projects")
 function getFolderLeafName(folderPath: string): string {
@@ -33,7 +40,7 @@ interface ValidationResult {
 }
 
 // Validate that folder name doesn't conflict with labels (Proton Mail limitation)
-// This includes system-wide checks across all filters
+// This includes checks against every folder and label in the registry
 function validateFolderLabelConflict(
   targetFolder: string,
   labels: string[],
@@ -42,26 +49,26 @@ function validateFolderLabelConflict(
 ): ValidationResult {
   const folderLeaf = getFolderLeafName(targetFolder).toLowerCase();
 
-  // Check 1: Current folder conflicts with existing labels from other filters
+  // Check 1: Current folder conflicts with an existing label
   if (folderLeaf) {
     const conflictingLabel = existingLabels.find((l) => l.toLowerCase() === folderLeaf);
     if (conflictingLabel) {
       return {
-        error: `Folder name "${getFolderLeafName(targetFolder)}" conflicts with label "${conflictingLabel}" used by another filter. Proton Mail does not allow folders and labels to share the same name.`,
+        error: `Folder name "${getFolderLeafName(targetFolder)}" conflicts with the existing label "${conflictingLabel}". Proton Mail does not allow folders and labels to share the same name.`,
         conflictingLabel,
         conflictType: 'external-label',
       };
     }
   }
 
-  // Check 2: Current labels conflict with existing folder leaf names from other filters
+  // Check 2: Current labels conflict with existing folder leaf names
   for (const label of labels) {
     const conflictingFolder = existingFolderLeafNames.find(
       (f) => f.toLowerCase() === label.toLowerCase()
     );
     if (conflictingFolder) {
       return {
-        error: `Label "${label}" conflicts with folder name "${conflictingFolder}" used by another filter. Proton Mail does not allow folders and labels to share the same name.`,
+        error: `Label "${label}" conflicts with the existing folder name "${conflictingFolder}". Proton Mail does not allow folders and labels to share the same name.`,
         conflictingLabel: label,
         conflictType: 'external-folder',
       };
@@ -83,26 +90,50 @@ function validateFolderLabelConflict(
   return { error: null, conflictingLabel: null, conflictType: null };
 }
 
+// Flags shown as checkboxes rather than in the custom flags list
+const CHECKBOX_FLAGS = [SEEN_FLAG, FLAGGED_FLAG];
+
+interface VacationFormState {
+  subject: string;
+  body: string;
+  days: string;
+  addresses: string[];
+}
+
+const initialVacation: VacationFormState = {
+  subject: '',
+  body: '',
+  days: '',
+  addresses: [],
+};
+
 interface FilterFormState {
   name: string;
-  fromAddresses: string[];
-  toAddress: string;
+  enabled: boolean;
+  conditions: ConditionGroup;
   expirationDays: string;
-  markRead: boolean;
+  flags: string[];
   addYearLabel: boolean;
+  dateLabel: string;
+  // null when no auto-reply is sent
+  vacation: VacationFormState | null;
   targetFolder: string;
   labels: string[];
+  stopProcessing: boolean;
 }
 
 const initialState: FilterFormState = {
   name: '',
-  fromAddresses: [''],
-  toAddress: '',
+  enabled: true,
+  conditions: createConditionGroup(),
   expirationDays: '',
-  markRead: false,
+  flags: [],
   addYearLabel: false,
+  dateLabel: '',
+  vacation: null,
   targetFolder: '',
   labels: [],
+  stopProcessing: true,
 };
 
 interface FilterFormProps {
@@ -119,16 +150,35 @@ interface FilterFormProps {
   onDirtyChange?: (isDirty: boolean) => void;
 }
 
+// The builder always edits a group at the root
+function toConditionGroup(conditions: ConditionNode | null): ConditionGroup {
+  if (!conditions) return createConditionGroup();
+  if (conditions.type === 'allof' || conditions.type === 'anyof') return conditions;
+  return { type: 'allof', children: [conditions] };
+}
+
+function vacationToFormState(vacation: VacationAction): VacationFormState {
+  return {
+    subject: vacation.subject,
+    body: vacation.body,
+    days: vacation.days !== null ? String(vacation.days) : '',
+    addresses: vacation.addresses,
+  };
+}
+
 function filterToFormState(filter: Filter): FilterFormState {
   return {
     name: filter.name,
-    fromAddresses: filter.fromAddresses.length > 0 ? filter.fromAddresses : [''],
-    toAddress: filter.toAddress,
+    enabled: filter.enabled,
+    conditions: toConditionGroup(filter.conditions),
     expirationDays: filter.expirationDays !== null ? String(filter.expirationDays) : '',
-    markRead: filter.markRead,
+    flags: filter.flags,
     addYearLabel: filter.addYearLabel ?? false,
+    dateLabel: filter.dateLabel ?? '',
+    vacation: filter.vacation ? vacationToFormState(filter.vacation) : null,
     targetFolder: filter.targetFolder,
     labels: filter.labels,
+    stopProcessing: filter.stopProcessing,
   };
 }
 
@@ -138,6 +188,7 @@ export default function FilterForm({ filter, database, availableLabels, availabl
     filter ? filterToFormState(filter) : initialState
   );
   const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [originalState, setOriginalState] = useState<FilterFormState>(
     filter ? filterToFormState(filter) : initialState
   );
@@ -158,6 +209,16 @@ export default function FilterForm({ filter, database, availableLabels, availabl
     return isDuplicate ? 'A filter with this name already exists' : null;
   }, [formState.name, existingFilterNames]);
 
+  const dateLabelError = useMemo(() => {
+    const format = formState.dateLabel.trim();
+    if (!format) return null;
+    if (getDateLabelTokens(format).length === 0) return 'Use at least one of YYYY, MM, DD or Q, set apart from other letters and digits';
+    if (/["\\$]/.test(format)) return 'Quotes, backslashes and "$" are not allowed';
+    return null;
+  }, [formState.dateLabel]);
+
+  const vacationError = formState.vacation && !formState.vacation.body.trim() ? 'The reply body cannot be empty' : null;
+
   const isDirty = useMemo(() => {
     return JSON.stringify(formState) !== JSON.stringify(originalState);
   }, [formState, originalState]);
@@ -181,24 +242,26 @@ export default function FilterForm({ filter, database, availableLabels, availabl
     setFormState((prev) => ({ ...prev, [field]: value }));
   };
 
-  const handleFromAddressChange = (index: number, value: string) => {
-    const newAddresses = [...formState.fromAddresses];
-    newAddresses[index] = value;
-    setFormState((prev) => ({ ...prev, fromAddresses: newAddresses }));
+  const handleFlagToggle = (flag: string, checked: boolean) => {
+    setFormState((prev) => ({
+      ...prev,
+      flags: checked ? [...prev.flags, flag] : prev.flags.filter((f) => f !== flag),
+    }));
   };
 
-  const addFromAddress = () => {
+  // Keywords are edited as a list; flags with a checkbox keep their place
+  const handleKeywordsChange = (keywords: string[]) => {
     setFormState((prev) => ({
       ...prev,
-      fromAddresses: [...prev.fromAddresses, ''],
+      flags: [
+        ...prev.flags.filter((f) => CHECKBOX_FLAGS.includes(f)),
+        ...keywords.map((k) => k.trim()).filter((k) => k !== ''),
+      ],
     }));
   };
 
-  const removeFromAddress = (index: number) => {
-    if (formState.fromAddresses.length > 1) {
-      const newAddresses = formState.fromAddresses.filter((_, i) => i !== index);
-      setFormState((prev) => ({ ...prev, fromAddresses: newAddresses }));
-    }
+  const handleVacationChange = (field: keyof VacationFormState, value: unknown) => {
+    setFormState((prev) => ({ ...prev, vacation: { ...(prev.vacation ?? initialVacation), [field]: value } }));
   };
 
   const handleCancel = () => {
@@ -207,16 +270,27 @@ export default function FilterForm({ filter, database, availableLabels, availabl
 
   const handleSave = async () => {
     setSaving(true);
+    setSaveError(null);
     try {
       const filterData = {
         name: formState.name,
-        fromAddresses: formState.fromAddresses.filter((addr) => addr.trim() !== ''),
-        toAddress: formState.toAddress,
+        enabled: formState.enabled,
+        conditions: cleanConditions(formState.conditions),
         expirationDays: formState.expirationDays ? parseInt(formState.expirationDays, 10) : null,
-        markRead: formState.markRead,
+        flags: formState.flags,
         addYearLabel: formState.addYearLabel,
+        dateLabel: formState.dateLabel.trim() || null,
+        vacation: formState.vacation
+          ? {
+              subject: formState.vacation.subject.trim(),
+              body: formState.vacation.body,
+              days: formState.vacation.days ? parseInt(formState.vacation.days, 10) : null,
+              addresses: formState.vacation.addresses,
+            }
+          : null,
         targetFolder: formState.targetFolder,
         labels: formState.labels,
+        stopProcessing: formState.stopProcessing,
       };
       if (isEditing && filter) {
         const updatedFilter = await updateFilter(database, filter.id, filterData);
@@ -229,7 +303,8 @@ export default function FilterForm({ filter, database, availableLabels, availabl
         setTimeout(() => navigate(returnTo), 0);
       }
     } catch (error) {
-      console.error('Failed to save filter:', error);
+      // The server explains what it rejected, such as a script that would not be valid Sieve
+      setSaveError((error as Error).message);
       setSaving(false);
     }
   };
@@ -261,51 +336,21 @@ export default function FilterForm({ filter, database, availableLabels, availabl
           helperText={!saving ? nameError : ''}
         />
 
+        <FormControlLabel
+          control={<Switch checked={formState.enabled} onChange={(e) => handleChange('enabled', e.target.checked)} />}
+          label={formState.enabled ? 'Enabled' : 'Disabled (left out of Export All)'}
+        />
+
         <Box>
           <Box sx={{ mb: 1, fontWeight: 500, color: 'text.secondary' }}>
-            From Addresses
+            Conditions
           </Box>
-          <Stack spacing={1}>
-            {formState.fromAddresses.map((address, index) => (
-              <Box key={index} sx={{ display: 'flex', gap: 1 }}>
-                <TextField
-                  value={address}
-                  onChange={(e) => handleFromAddressChange(index, e.target.value)}
-                  placeholder="email@example.com"
-                  fullWidth
-                  size="small"
-                />
-                {formState.fromAddresses.length > 1 && (
-                  <IconButton
-                    onClick={() => removeFromAddress(index)}
-                    color="error"
-                    size="small"
-                  >
-                    <DeleteIcon />
-                  </IconButton>
-                )}
-              </Box>
-            ))}
-            <Box>
-              <Button
-                startIcon={<AddIcon />}
-                onClick={addFromAddress}
-                size="small"
-              >
-                Add Address
-              </Button>
-            </Box>
-          </Stack>
+          <ConditionBuilder
+            value={formState.conditions}
+            onChange={(conditions) => handleChange('conditions', conditions)}
+          />
         </Box>
 
-        <TextField
-          label="To Address"
-          value={formState.toAddress}
-          onChange={(e) => handleChange('toAddress', e.target.value)}
-          placeholder="email@example.com"
-          fullWidth
-        />
-
         <TextField
           label="Expiration (days)"
           type="number"
@@ -339,7 +384,7 @@ export default function FilterForm({ filter, database, availableLabels, availabl
               label="Target Folder"
               placeholder="Folder path"
               error={!saving && Boolean(validation.error) && (validation.conflictType === 'local' || validation.conflictType === 'external-label')}
-              helperText={!saving && validation.error && (validation.conflictType === 'local' || validation.conflictType === 'external-label') ? `Conflicts with label "${validation.conflictingLabel}"${validation.conflictType === 'external-label' ? ' (another filter)' : ''}` : ''}
+              helperText={!saving && validation.error && (validation.conflictType === 'local' || validation.conflictType === 'external-label') ? `Conflicts with label "${validation.conflictingLabel}"${validation.conflictType === 'external-label' ? ' (from Folders & Labels)' : ''}` : ''}
             />
           )}
         />
@@ -381,7 +426,7 @@ export default function FilterForm({ filter, database, availableLabels, availabl
               label="Labels"
               placeholder="Select or type labels"
               error={!saving && Boolean(validation.error) && (validation.conflictType === 'local' || validation.conflictType === 'external-folder')}
-              helperText={!saving && validation.error && (validation.conflictType === 'local' || validation.conflictType === 'external-folder') ? `"${validation.conflictingLabel}" conflicts with folder name${validation.conflictType === 'external-folder' ? ' (another filter)' : ''}` : ''}
+              helperText={!saving && validation.error && (validation.conflictType === 'local' || validation.conflictType === 'external-folder') ? `"${validation.conflictingLabel}" conflicts with folder name${validation.conflictType === 'external-folder' ? ' (from Folders & Labels)' : ''}` : ''}
             />
           )}
         />
@@ -394,12 +439,21 @@ export default function FilterForm({ filter, database, availableLabels, availabl
           <FormControlLabel
             control={
               <Checkbox
-                checked={formState.markRead}
-                onChange={(e) => handleChange('markRead', e.target.checked)}
+                checked={formState.flags.includes(SEEN_FLAG)}
+                onChange={(e) => handleFlagToggle(SEEN_FLAG, e.target.checked)}
               />
             }
             label="Mark as read"
           />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={formState.flags.includes(FLAGGED_FLAG)}
+                onChange={(e) => handleFlagToggle(FLAGGED_FLAG, e.target.checked)}
+              />
+            }
+            label="Star"
+          />
           <FormControlLabel
             control={
               <Checkbox
@@ -409,8 +463,118 @@ export default function FilterForm({ filter, database, availableLabels, availabl
             }
             label="Add year as label"
           />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={formState.stopProcessing}
+                onChange={(e) => handleChange('stopProcessing', e.target.checked)}
+                // Only filters that file mail stop; the others always continue
+                disabled={!formState.targetFolder && formState.labels.length === 0 && !formState.addYearLabel && !formState.dateLabel.trim()}
+              />
+            }
+            label="Stop processing later filters after filing"
+          />
         </Box>
 
+        <Autocomplete
+          multiple
+          freeSolo
+          options={[]}
+          value={formState.flags.filter((f) => !CHECKBOX_FLAGS.includes(f))}
+          onChange={(_, newValue) => handleKeywordsChange(newValue)}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Custom flags"
+              placeholder="Type a keyword and press Enter"
+              helperText="IMAP keywords for your mail client, such as $Work"
+            />
+          )}
+        />
+
+        <TextField
+          label="Date label"
+          value={formState.dateLabel}
+          onChange={(e) => handleChange('dateLabel', e.target.value)}
+          placeholder="e.g. YYYY-MM or YYYY-Q"
+          fullWidth
+          error={Boolean(dateLabelError)}
+          helperText={
+            dateLabelError ??
+            (formState.dateLabel.trim()
+              ? `Filled in when mail arrives; today this would be "${formatDateLabel(formState.dateLabel.trim(), new Date())}"`
+              : 'Label filled in when mail arrives: YYYY year, MM month, DD day, Q quarter, each set apart from other letters and digits ("FAQ" or "Q1" stay as written)')
+          }
+        />
+
+        <Accordion defaultExpanded={Boolean(filter?.vacation)} disableGutters>
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <Typography>Auto-reply{formState.vacation ? ' (on)' : ''}</Typography>
+          </AccordionSummary>
+          <AccordionDetails>
+            <Stack spacing={2}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={formState.vacation !== null}
+                    onChange={(e) => handleChange('vacation', e.target.checked ? initialVacation : null)}
+                  />
+                }
+                label="Send an automatic reply to matching messages"
+              />
+              {formState.vacation && (
+                <>
+                  <TextField
+                    label="Subject"
+                    value={formState.vacation.subject}
+                    onChange={(e) => handleVacationChange('subject', e.target.value)}
+                    placeholder="Leave blank to use the server default"
+                    fullWidth
+                  />
+                  <TextField
+                    label="Reply"
+                    value={formState.vacation.body}
+                    onChange={(e) => handleVacationChange('body', e.target.value)}
+                    multiline
+                    minRows={4}
+                    fullWidth
+                    error={Boolean(vacationError)}
+                    helperText={vacationError}
+                  />
+                  <TextField
+                    label="Days between replies to the same sender"
+                    type="number"
+                    value={formState.vacation.days}
+                    onChange={(e) => handleVacationChange('days', e.target.value)}
+                    placeholder="Leave blank to use the server default"
+                    fullWidth
+                    slotProps={{
+                      htmlInput: { min: 1 },
+                    }}
+                  />
+                  <Autocomplete
+                    multiple
+                    freeSolo
+                    options={[]}
+                    value={formState.vacation.addresses}
+                    onChange={(_, newValue) => handleVacationChange('addresses', newValue)}
+                    renderInput={(params) => (
+                      <TextField
+                        {...params}
+                        label="My addresses"
+                        placeholder="Type an address and press Enter"
+                        helperText="Other addresses of yours; mail sent to them also gets a reply"
+                      />
+                    )}
+                  />
+                </>
+              )}
+            </Stack>
+          </AccordionDetails>
+        </Accordion>
+
+        {saveError && <Alert severity="error">{saveError}</Alert>}
+
         <Box sx={{ display: 'flex', justifyContent: 'space-between', pt: 2 }}>
           <Box>
             {isEditing && (
@@ -429,7 +593,7 @@ export default function FilterForm({ filter, database, availableLabels, availabl
             <Button variant="outlined" onClick={handleCancel} disabled={saving || deleting}>
               Cancel
             </Button>
-            <Button variant="contained" onClick={handleSave} disabled={saving || deleting || Boolean(validation.error) || Boolean(nameError)}>
+            <Button variant="contained" onClick={handleSave} disabled={saving || deleting || Boolean(validation.error) || Boolean(nameError) || Boolean(dateLabelError) || Boolean(vacationError)}>
               {saving ? 'Saving...' : 'Save'}
             </Button>
           </Box>
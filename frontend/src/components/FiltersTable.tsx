@@ -1,5 +1,5 @@
 import { useState, useMemo, useEffect, useRef } from 'react';
-import { Box, Typography, Button, IconButton, Tooltip, TextField, InputAdornment } from '@mui/material';
+import { Box, Typography, Button, IconButton, Tooltip, TextField, InputAdornment, ToggleButton, ToggleButtonGroup, Switch } from '@mui/material';
 import { DataGrid, GridColDef, GridRowSelectionModel, GridSortModel } from '@mui/x-data-grid';
 import { useNavigate } from 'react-router-dom';
 import AddIcon from '@mui/icons-material/Add';
@@ -7,9 +7,34 @@ import DeleteIcon from '@mui/icons-material/Delete';
 import CodeIcon from '@mui/icons-material/Code';
 import SearchIcon from '@mui/icons-material/Search';
 import ClearIcon from '@mui/icons-material/Clear';
+import UploadIcon from '@mui/icons-material/Upload';
+import DownloadIcon from '@mui/icons-material/Download';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import FolderIcon from '@mui/icons-material/Folder';
+import StarIcon from '@mui/icons-material/Star';
+import EditIcon from '@mui/icons-material/Edit';
 import { Filter } from '../types';
+import {
+  Database,
+  Registry,
+  GmailExportResult,
+  exportGmailFilters,
+  fetchCombinedSieveScript,
+  reorderFilters,
+  setFiltersEnabled,
+} from '../api/filters';
+import { downloadFile } from '../utils/downloadFile';
 import { formatRelativeTime } from '../utils/formatRelativeTime';
+import { FLAGGED_FLAG } from '../utils/flags';
+import { getDeploymentStatus, DEPLOYMENT_STATUS_LABELS, DeploymentStatus } from '../utils/deployment';
 import ScriptDialog from './ScriptDialog';
+import ImportDialog, { ImportFormat } from './ImportDialog';
+import GmailExportDialog from './GmailExportDialog';
+import ThunderbirdExportDialog from './ThunderbirdExportDialog';
+import DeployDialog from './DeployDialog';
+import MailboxSyncDialog from './MailboxSyncDialog';
+import BulkEditDialog from './BulkEditDialog';
+import PriorityList from './PriorityList';
 
 function fuzzyMatch(text: string, query: string): boolean {
   const lowerText = text.toLowerCase();
@@ -25,6 +50,8 @@ function fuzzyMatch(text: string, query: string): boolean {
 
 interface FiltersTableProps {
   filters: Filter[];
+  database: Database;
+  registry: Registry;
   loading?: boolean;
   pageSize: number;
   page: number;
@@ -37,6 +64,9 @@ interface FiltersTableProps {
   onSelectedIdsChange: (ids: GridRowSelectionModel) => void;
   onSortModelChange: (model: GridSortModel) => void;
   onDeleteSelected: (ids: string[]) => void;
+  onFiltersImported: (filters: Filter[]) => void;
+  onFiltersReordered: (filters: Filter[]) => void;
+  onFiltersUpdated: (filters: Filter[]) => void;
 }
 
 function EmptyState() {
@@ -60,10 +90,18 @@ function EmptyState() {
   );
 }
 
-export default function FiltersTable({ filters, loading = false, pageSize, page, searchQuery, selectedIds, sortModel, onPageSizeChange, onPageChange, onSearchQueryChange, onSelectedIdsChange, onSortModelChange, onDeleteSelected }: FiltersTableProps) {
+export default function FiltersTable({ filters, database, registry, loading = false, pageSize, page, searchQuery, selectedIds, sortModel, onPageSizeChange, onPageChange, onSearchQueryChange, onSelectedIdsChange, onSortModelChange, onDeleteSelected, onFiltersImported, onFiltersReordered, onFiltersUpdated }: FiltersTableProps) {
   const navigate = useNavigate();
   const searchInputRef = useRef<HTMLInputElement>(null);
   const [scriptDialogFilter, setScriptDialogFilter] = useState<Filter | null>(null);
+  const [importFormat, setImportFormat] = useState<ImportFormat | null>(null);
+  const [gmailExport, setGmailExport] = useState<GmailExportResult | null>(null);
+  const [thunderbirdDialogOpen, setThunderbirdDialogOpen] = useState(false);
+  const [deployDialogOpen, setDeployDialogOpen] = useState(false);
+  const [mailboxDialogOpen, setMailboxDialogOpen] = useState(false);
+  const [bulkEditOpen, setBulkEditOpen] = useState(false);
+  const [view, setView] = useState<'list' | 'priority'>('list');
+  const [reordering, setReordering] = useState(false);
   const [, setTick] = useState(0);
 
   // Auto-refresh relative times every minute
@@ -100,21 +138,113 @@ export default function FiltersTable({ filters, loading = false, pageSize, page,
     onDeleteSelected(selectedIds as string[]);
   };
 
+  const handleSetEnabled = async (ids: string[], enabled: boolean) => {
+    try {
+      onFiltersUpdated(await setFiltersEnabled(database, ids, enabled));
+    } catch (error) {
+      console.error('Failed to update filters:', error);
+    }
+  };
+
+  const handleReorder = async (ids: string[]) => {
+    setReordering(true);
+    try {
+      onFiltersReordered(await reorderFilters(database, ids));
+    } catch (error) {
+      console.error('Failed to reorder filters:', error);
+    } finally {
+      setReordering(false);
+    }
+  };
+
+  const handleExportAll = async () => {
+    try {
+      const script = await fetchCombinedSieveScript(database);
+      downloadFile(script, `proton-filters-${database}.sieve`);
+    } catch (error) {
+      console.error('Failed to export filters:', error);
+    }
+  };
+
+  const handleExportGmail = async () => {
+    try {
+      const result = await exportGmailFilters(database);
+      downloadFile(result.xml, 'mailFilters.xml', 'application/xml');
+      setGmailExport(result);
+    } catch (error) {
+      console.error('Failed to export Gmail filters:', error);
+    }
+  };
+
   const handleScriptClick = (filter: Filter) => {
     setScriptDialogFilter(filter);
   };
 
+  const handleFilterDeployed = (filter: Filter) => {
+    onFiltersUpdated([filter]);
+    setScriptDialogFilter(filter);
+  };
+
   const handleScriptDialogClose = () => {
     setScriptDialogFilter(null);
   };
 
   const columns: GridColDef<Filter>[] = [
+    {
+      field: 'enabled',
+      headerName: 'On',
+      width: 70,
+      renderCell: (params) => (
+        <Tooltip title={params.row.enabled ? 'Disable filter' : 'Enable filter'}>
+          <Switch
+            size="small"
+            checked={params.row.enabled}
+            onChange={(e) => handleSetEnabled([params.row.id], e.target.checked)}
+          />
+        </Tooltip>
+      ),
+    },
     {
       field: 'name',
       headerName: 'Name',
       flex: 1,
       minWidth: 200,
     },
+    {
+      field: 'starred',
+      headerName: 'Star',
+      width: 70,
+      align: 'center',
+      headerAlign: 'center',
+      valueGetter: (_value, row) => row.flags.includes(FLAGGED_FLAG),
+      renderCell: (params) =>
+        params.value ? (
+          <Tooltip title="Stars matching mail">
+            <StarIcon fontSize="small" color="warning" sx={{ verticalAlign: 'middle' }} />
+          </Tooltip>
+        ) : null,
+    },
+    {
+      field: 'deployment',
+      headerName: 'Deployment',
+      width: 150,
+      valueGetter: (_value, row) => getDeploymentStatus(row),
+      renderCell: (params) => {
+        const status = params.value as DeploymentStatus;
+        const deployedAt = params.row.deployment?.deployedAt;
+        return (
+          <Tooltip title={deployedAt ? `Marked as deployed ${formatRelativeTime(new Date(deployedAt))}` : ''}>
+            <Typography
+              variant="body2"
+              component="span"
+              color={status === 'outdated' ? 'warning.main' : status === 'never' ? 'text.secondary' : 'success.main'}
+            >
+              {DEPLOYMENT_STATUS_LABELS[status]}
+            </Typography>
+          </Tooltip>
+        );
+      },
+    },
     {
       field: 'updatedAt',
       headerName: 'Updated',
@@ -143,10 +273,33 @@ export default function FiltersTable({ filters, loading = false, pageSize, page,
     },
   ];
 
+  const importDialog = (
+    <ImportDialog
+      format={importFormat}
+      database={database}
+      onClose={() => setImportFormat(null)}
+      onImported={onFiltersImported}
+    />
+  );
+
   if (filters.length === 0 && !loading) {
     return (
       <Box>
-        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2, mb: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<UploadIcon />}
+            onClick={() => setImportFormat('sieve')}
+          >
+            Import Sieve
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<UploadIcon />}
+            onClick={() => setImportFormat('gmail')}
+          >
+            Import Gmail
+          </Button>
           <Button
             variant="contained"
             startIcon={<AddIcon />}
@@ -156,49 +309,76 @@ export default function FiltersTable({ filters, loading = false, pageSize, page,
           </Button>
         </Box>
         <EmptyState />
+        {importDialog}
       </Box>
     );
   }
 
   return (
     <Box sx={{ width: '100%' }}>
-      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, mb: 2 }}>
-        <TextField
-          placeholder="Search filters..."
-          size="small"
-          value={searchQuery}
-          onChange={(e) => onSearchQueryChange(e.target.value)}
-          onKeyDown={(e) => e.key === 'Escape' && onSearchQueryChange('')}
-          autoFocus
-          autoCorrect="off"
-          spellCheck={false}
-          inputRef={searchInputRef}
-          slotProps={{
-            input: {
-              startAdornment: (
-                <InputAdornment position="start">
-                  <SearchIcon fontSize="small" color="action" />
-                </InputAdornment>
-              ),
-              endAdornment: searchQuery && (
-                <InputAdornment position="end">
-                  <IconButton
-                    size="small"
-                    onClick={() => {
-                      onSearchQueryChange('');
-                      searchInputRef.current?.focus();
-                    }}
-                    edge="end"
-                  >
-                    <ClearIcon fontSize="small" />
-                  </IconButton>
-                </InputAdornment>
-              ),
-            },
-          }}
-          sx={{ width: 300 }}
-        />
-        <Box sx={{ display: 'flex', gap: 2 }}>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'space-between', alignItems: 'center', gap: 2, mb: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={view}
+            onChange={(_, value) => value && setView(value)}
+          >
+            <ToggleButton value="list">List</ToggleButton>
+            <ToggleButton value="priority">Priority</ToggleButton>
+          </ToggleButtonGroup>
+          {view === 'list' && (
+            <TextField
+              placeholder="Search filters..."
+              size="small"
+              value={searchQuery}
+              onChange={(e) => onSearchQueryChange(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && onSearchQueryChange('')}
+              autoFocus
+              autoCorrect="off"
+              spellCheck={false}
+              inputRef={searchInputRef}
+              slotProps={{
+                input: {
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <SearchIcon fontSize="small" color="action" />
+                    </InputAdornment>
+                  ),
+                  endAdornment: searchQuery && (
+                    <InputAdornment position="end">
+                      <IconButton
+                        size="small"
+                        onClick={() => {
+                          onSearchQueryChange('');
+                          searchInputRef.current?.focus();
+                        }}
+                        edge="end"
+                      >
+                        <ClearIcon fontSize="small" />
+                      </IconButton>
+                    </InputAdornment>
+                  ),
+                },
+              }}
+              sx={{ width: 300 }}
+            />
+          )}
+        </Box>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'flex-end', gap: 2 }}>
+          {selectedIds.length > 0 && (
+            <>
+              <Button variant="outlined" onClick={() => handleSetEnabled(selectedIds as string[], true)}>
+                Enable ({selectedIds.length})
+              </Button>
+              <Button variant="outlined" onClick={() => handleSetEnabled(selectedIds as string[], false)}>
+                Disable ({selectedIds.length})
+              </Button>
+              <Button variant="outlined" startIcon={<EditIcon />} onClick={() => setBulkEditOpen(true)}>
+                Edit ({selectedIds.length})
+              </Button>
+            </>
+          )}
           {selectedIds.length > 0 && (
             <Button
               variant="outlined"
@@ -209,6 +389,55 @@ export default function FiltersTable({ filters, loading = false, pageSize, page,
               Delete ({selectedIds.length})
             </Button>
           )}
+          <Button
+            variant="outlined"
+            startIcon={<UploadIcon />}
+            onClick={() => setImportFormat('sieve')}
+          >
+            Import Sieve
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<UploadIcon />}
+            onClick={() => setImportFormat('gmail')}
+          >
+            Import Gmail
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={handleExportAll}
+          >
+            Export All
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={handleExportGmail}
+          >
+            Export Gmail
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={() => setThunderbirdDialogOpen(true)}
+          >
+            Export Thunderbird
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<CloudUploadIcon />}
+            onClick={() => setDeployDialogOpen(true)}
+          >
+            Deploy
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<FolderIcon />}
+            onClick={() => setMailboxDialogOpen(true)}
+          >
+            Check Folders
+          </Button>
           <Button
             variant="contained"
             startIcon={<AddIcon />}
@@ -218,55 +447,84 @@ export default function FiltersTable({ filters, loading = false, pageSize, page,
           </Button>
         </Box>
       </Box>
-      <DataGrid
-        rows={filteredFilters}
-        columns={columns}
-        loading={loading}
-        checkboxSelection
-        rowSelectionModel={selectedIds}
-        onRowSelectionModelChange={handleSelectionChange}
-        keepNonExistentRowsSelected
-        paginationModel={{ pageSize, page }}
-        onPaginationModelChange={(model) => {
-          onPageChange(model.page);
-          if (model.pageSize !== pageSize) {
-            onPageSizeChange(model.pageSize);
-          }
-        }}
-        sortModel={sortModel}
-        onSortModelChange={onSortModelChange}
-        pageSizeOptions={[10, 25, 50]}
-        disableRowSelectionOnClick
-        onRowClick={(params, event) => {
-          const target = event.target as HTMLElement;
-          if (target.closest('.MuiCheckbox-root') || target.closest('.MuiIconButton-root')) {
-            return;
-          }
-          navigate(`/filters/${params.row.id}`);
-        }}
-        sx={{
-          border: 'none',
-          '& .MuiDataGrid-row': {
-            cursor: 'pointer',
-          },
-          '& .MuiDataGrid-cell': {
-            borderColor: 'rgba(255, 255, 255, 0.1)',
-          },
-          '& .MuiDataGrid-columnHeaders': {
-            borderColor: 'rgba(255, 255, 255, 0.1)',
-          },
-          '& .MuiDataGrid-columnHeader:focus, & .MuiDataGrid-columnHeader:focus-within': {
-            outline: 'none',
-          },
-          '& .MuiDataGrid-footerContainer': {
-            borderColor: 'rgba(255, 255, 255, 0.1)',
-          },
-        }}
-      />
+      {view === 'priority' ? (
+        <PriorityList filters={filters} disabled={reordering} onReorder={handleReorder} />
+      ) : (
+        <DataGrid
+          rows={filteredFilters}
+          columns={columns}
+          loading={loading}
+          checkboxSelection
+          rowSelectionModel={selectedIds}
+          onRowSelectionModelChange={handleSelectionChange}
+          keepNonExistentRowsSelected
+          paginationModel={{ pageSize, page }}
+          onPaginationModelChange={(model) => {
+            onPageChange(model.page);
+            if (model.pageSize !== pageSize) {
+              onPageSizeChange(model.pageSize);
+            }
+          }}
+          sortModel={sortModel}
+          onSortModelChange={onSortModelChange}
+          pageSizeOptions={[10, 25, 50]}
+          disableRowSelectionOnClick
+          getRowClassName={(params) => (params.row.enabled ? '' : 'filter-disabled')}
+          onRowClick={(params, event) => {
+            const target = event.target as HTMLElement;
+            if (target.closest('.MuiCheckbox-root') || target.closest('.MuiIconButton-root') || target.closest('.MuiSwitch-root')) {
+              return;
+            }
+            navigate(`/filters/${params.row.id}`);
+          }}
+          sx={{
+            border: 'none',
+            '& .MuiDataGrid-row': {
+              cursor: 'pointer',
+            },
+            '& .filter-disabled': {
+              color: 'text.disabled',
+              fontStyle: 'italic',
+            },
+            '& .MuiDataGrid-cell': {
+              borderColor: 'rgba(255, 255, 255, 0.1)',
+            },
+            '& .MuiDataGrid-columnHeaders': {
+              borderColor: 'rgba(255, 255, 255, 0.1)',
+            },
+            '& .MuiDataGrid-columnHeader:focus, & .MuiDataGrid-columnHeader:focus-within': {
+              outline: 'none',
+            },
+            '& .MuiDataGrid-footerContainer': {
+              borderColor: 'rgba(255, 255, 255, 0.1)',
+            },
+          }}
+        />
+      )}
       <ScriptDialog
         open={scriptDialogFilter !== null}
         filter={scriptDialogFilter}
+        database={database}
         onClose={handleScriptDialogClose}
+        onDeployed={handleFilterDeployed}
+      />
+      {importDialog}
+      <GmailExportDialog result={gmailExport} onClose={() => setGmailExport(null)} />
+      <ThunderbirdExportDialog
+        open={thunderbirdDialogOpen}
+        database={database}
+        onClose={() => setThunderbirdDialogOpen(false)}
+      />
+      <DeployDialog open={deployDialogOpen} database={database} onClose={() => setDeployDialogOpen(false)} />
+      <MailboxSyncDialog open={mailboxDialogOpen} database={database} onClose={() => setMailboxDialogOpen(false)} />
+      <BulkEditDialog
+        open={bulkEditOpen}
+        database={database}
+        filters={filters.filter((f) => selectedIds.includes(f.id))}
+        availableLabels={registry.labels.map((l) => l.name)}
+        availableFolders={registry.folders.map((f) => f.path)}
+        onClose={() => setBulkEditOpen(false)}
+        onSaved={onFiltersUpdated}
       />
     </Box>
   );
@@ -0,0 +1,29 @@
+import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Typography } from '@mui/material';
+import { GmailExportResult } from '../api/filters';
+import ExportIssues from './ExportIssues';
+
+interface GmailExportDialogProps {
+  result: GmailExportResult | null;
+  onClose: () => void;
+}
+
+// Shown after mailFilters.xml is downloaded, listing what did not carry over
+export default function GmailExportDialog({ result, onClose }: GmailExportDialogProps) {
+  return (
+    <Dialog open={result !== null} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Gmail Export</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2">
+          Exported {result?.exported} {result?.exported === 1 ? 'filter' : 'filters'} to mailFilters.xml. Import it in
+          Gmail under Settings → Filters and Blocked Addresses.
+        </Typography>
+        <ExportIssues issues={result?.issues ?? []} />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} variant="contained">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+} from '@mui/material';
+import {
+  previewSieveImport,
+  importSieveScript,
+  previewGmailImport,
+  importGmailFilters,
+  Database,
+  ImportPreview,
+} from '../api/filters';
+import { Filter } from '../types';
+import { describeCondition } from '../utils/conditions';
+
+export type ImportFormat = 'sieve' | 'gmail';
+
+// How each format is read, previewed and described to the user
+const FORMATS: Record<
+  ImportFormat,
+  {
+    title: string;
+    placeholder: string;
+    accept: string;
+    issuesIntro: string;
+    preview: (db: Database, text: string) => Promise<ImportPreview>;
+    import: (db: Database, text: string) => Promise<Filter[]>;
+  }
+> = {
+  sieve: {
+    title: 'Import Sieve Script',
+    placeholder: 'Paste one or more Sieve filters here',
+    accept: '.sieve,.txt',
+    issuesIntro: 'These parts of the script could not be mapped to filter settings:',
+    preview: previewSieveImport,
+    import: importSieveScript,
+  },
+  gmail: {
+    title: 'Import Gmail Filters',
+    placeholder: 'Paste the contents of mailFilters.xml, or choose the file exported from Gmail settings',
+    accept: '.xml',
+    issuesIntro: 'These parts of the Gmail filters could not be mapped to filter settings:',
+    preview: previewGmailImport,
+    import: importGmailFilters,
+  },
+};
+
+interface ImportDialogProps {
+  format: ImportFormat | null;
+  database: Database;
+  onClose: () => void;
+  onImported: (filters: Filter[]) => void;
+}
+
+export default function ImportDialog({ format, database, onClose, onImported }: ImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [script, setScript] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleScriptChange = (value: string) => {
+    setScript(value);
+    // Any edit invalidates the preview
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    handleScriptChange(await file.text());
+    // Allow choosing the same file again after editing
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!format) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setPreview(await FORMATS[format].preview(database, script));
+    } catch (err) {
+      setPreview(null);
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!format) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const created = await FORMATS[format].import(database, script);
+      onImported(created);
+      handleClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClose = () => {
+    setScript('');
+    setPreview(null);
+    setError(null);
+    onClose();
+  };
+
+  const settings = FORMATS[format ?? 'sieve'];
+  const canImport = preview !== null && preview.filters.length > 0 && preview.errors.length === 0;
+
+  return (
+    <Dialog open={format !== null} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>{settings.title}</DialogTitle>
+      <DialogContent>
+        <TextField
+          value={script}
+          onChange={(e) => handleScriptChange(e.target.value)}
+          placeholder={settings.placeholder}
+          multiline
+          minRows={8}
+          maxRows={16}
+          fullWidth
+          spellCheck={false}
+          sx={{ mt: 1, '& textarea': { fontFamily: 'monospace', fontSize: '0.875rem' } }}
+        />
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {preview && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+              {preview.filters.length} {preview.filters.length === 1 ? 'filter' : 'filters'} found
+            </Typography>
+            {preview.filters.length > 0 && (
+              <TableContainer component={Paper}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Name</TableCell>
+                      <TableCell>Conditions</TableCell>
+                      <TableCell>Target Folder</TableCell>
+                      <TableCell>Labels</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {preview.filters.map((filter, index) => {
+                      const filterError = preview.errors.find((e) => e.filterIndex === index);
+                      return (
+                        <TableRow key={index}>
+                          <TableCell>
+                            {filter.name}
+                            {filterError && (
+                              <Typography variant="caption" color="error" display="block">
+                                {filterError.error}
+                              </Typography>
+                            )}
+                          </TableCell>
+                          <TableCell>{describeCondition(filter.conditions)}</TableCell>
+                          <TableCell>{filter.targetFolder || '-'}</TableCell>
+                          <TableCell>
+                            {[...filter.labels, ...(filter.addYearLabel ? ['(year)'] : []), ...(filter.dateLabel ? [`(${filter.dateLabel})`] : [])].join(', ') || '-'}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+
+            {preview.issues.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  {settings.issuesIntro}
+                </Typography>
+                {preview.issues.map((issue, index) => (
+                  <Typography key={index} variant="body2" component="div" sx={{ mb: 0.5 }}>
+                    <strong>Line {issue.line}:</strong> {issue.message}
+                    <Typography component="div" variant="caption" sx={{ fontFamily: 'monospace' }}>
+                      {issue.source}
+                    </Typography>
+                  </Typography>
+                ))}
+              </Alert>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={settings.accept}
+          hidden
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+        />
+        <Button onClick={() => fileInputRef.current?.click()} disabled={busy} sx={{ mr: 'auto' }}>
+          Choose File
+        </Button>
+        <Button onClick={handleClose} disabled={busy}>
+          Cancel
+        </Button>
+        <Button onClick={handlePreview} disabled={busy || !script.trim()}>
+          Preview
+        </Button>
+        <Button onClick={handleImport} variant="contained" disabled={busy || !canImport}>
+          Import
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
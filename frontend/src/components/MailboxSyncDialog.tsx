@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Alert,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  CircularProgress,
+  Box,
+} from '@mui/material';
+import {
+  checkMailboxes,
+  createMissingMailboxes,
+  fetchImapServer,
+  Database,
+  ImapServerStatus,
+  MailboxReference,
+  MailboxSyncReport,
+} from '../api/filters';
+
+interface MailboxSyncDialogProps {
+  open: boolean;
+  database: Database;
+  onClose: () => void;
+}
+
+function MissingList({ title, references }: { title: string; references: MailboxReference[] }) {
+  if (references.length === 0) return null;
+  return (
+    <>
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>
+        {title}
+      </Typography>
+      <List dense>
+        {references.map((reference) => (
+          <ListItem key={reference.mailbox} disableGutters>
+            <ListItemText primary={reference.name} secondary={`Used by ${reference.filters.join(', ')}`} />
+          </ListItem>
+        ))}
+      </List>
+    </>
+  );
+}
+
+export default function MailboxSyncDialog({ open, database, onClose }: MailboxSyncDialogProps) {
+  const [server, setServer] = useState<ImapServerStatus | null>(null);
+  const [report, setReport] = useState<MailboxSyncReport | null>(null);
+  const [created, setCreated] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchImapServer(database)
+      .then(async (status) => {
+        setServer(status);
+        if (status.configured) {
+          setBusy(true);
+          setReport(await checkMailboxes(database));
+        }
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setBusy(false));
+  }, [open, database]);
+
+  const handleCreate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await createMissingMailboxes(database);
+      setCreated(result.created);
+      setReport(result.report);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClose = () => {
+    setServer(null);
+    setReport(null);
+    setCreated(null);
+    setError(null);
+    onClose();
+  };
+
+  const missingCount = report ? report.missingFolders.length + report.missingLabels.length : 0;
+  const unused = report ? [...report.unusedFolders.map((f) => `${f} (folder)`), ...report.unusedLabels.map((l) => `${l} (label)`)] : [];
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Check Folders and Labels</DialogTitle>
+      <DialogContent>
+        {((server === null && !error) || (busy && !report)) && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {server && !server.configured && (
+          <Alert severity="info">
+            No IMAP account is configured for {database}. Add your Proton Bridge account to{' '}
+            <code>config/imap-servers.json</code>, using <code>config/imap-servers.example.json</code> as a template.
+          </Alert>
+        )}
+
+        {server?.configured && report && (
+          <Typography variant="body2">
+            Compared the folders and labels your filters use with {server.username} on {server.host}:{server.port}.
+            Date labels are not checked.
+          </Typography>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {created && (
+          <Alert severity="success" sx={{ mt: 2 }}>
+            {created.length === 0 ? 'Nothing needed creating.' : `Created ${created.join(', ')}.`}
+          </Alert>
+        )}
+
+        {report && (
+          <>
+            {missingCount === 0 && (
+              <Alert severity="success" sx={{ mt: 2 }}>
+                Every folder and label the filters use exists in the account.
+              </Alert>
+            )}
+            <MissingList title="Missing folders" references={report.missingFolders} />
+            <MissingList title="Missing labels" references={report.missingLabels} />
+            {report.unreadable.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                The server sent mailbox entries that could not be read, so they were left out:
+                <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                  {report.unreadable.map((line, index) => (
+                    <li key={index}>
+                      <code>{line}</code>
+                    </li>
+                  ))}
+                </Box>
+              </Alert>
+            )}
+            {unused.length > 0 && (
+              <>
+                <Typography variant="subtitle2" sx={{ mt: 2 }}>
+                  Not used by any filter
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {unused.join(', ')}
+                </Typography>
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Close</Button>
+        {missingCount > 0 && (
+          <Button onClick={handleCreate} variant="contained" disabled={busy}>
+            {busy ? 'Creating...' : `Create Missing (${missingCount})`}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
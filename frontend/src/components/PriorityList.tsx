@@ -0,0 +1,104 @@
+import { useState, useMemo } from 'react';
+import { Box, Paper, Typography, Link } from '@mui/material';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import { useNavigate } from 'react-router-dom';
+import { Filter } from '../types';
+import { describeCondition } from '../utils/conditions';
+
+interface PriorityListProps {
+  filters: Filter[];
+  disabled?: boolean;
+  onReorder: (ids: string[]) => void;
+}
+
+// Filters in the order the script runs them. Rows are dragged onto the
+// position they should take; the new order is saved on drop.
+export default function PriorityList({ filters, disabled = false, onReorder }: PriorityListProps) {
+  const navigate = useNavigate();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const ordered = useMemo(() => [...filters].sort((a, b) => a.priority - b.priority), [filters]);
+
+  const handleDrop = (targetIndex: number) => {
+    const fromIndex = ordered.findIndex((f) => f.id === draggedId);
+    setDraggedId(null);
+    setOverIndex(null);
+    if (fromIndex === -1 || fromIndex === targetIndex) return;
+    const ids = ordered.map((f) => f.id);
+    const [moved] = ids.splice(fromIndex, 1);
+    ids.splice(targetIndex, 0, moved);
+    onReorder(ids);
+  };
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Filters run from top to bottom, and a filter that files mail into a folder or label stops the ones below it.
+        Drag a filter to change its priority.
+      </Typography>
+      <Paper>
+        {ordered.map((filter, index) => (
+          <Box
+            key={filter.id}
+            draggable={!disabled}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedId(filter.id);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverIndex(index);
+            }}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setOverIndex(null);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 2,
+              px: 2,
+              py: 1,
+              cursor: disabled ? 'default' : 'grab',
+              opacity: draggedId === filter.id ? 0.4 : filter.enabled ? 1 : 0.6,
+              borderTop: overIndex === index && draggedId !== filter.id ? '2px solid' : '2px solid transparent',
+              borderTopColor: overIndex === index && draggedId !== filter.id ? 'primary.main' : 'transparent',
+              borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+            }}
+          >
+            <DragIndicatorIcon fontSize="small" color="action" />
+            <Typography variant="body2" color="text.secondary" sx={{ minWidth: 32 }}>
+              {index + 1}
+            </Typography>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Link
+                component="button"
+                variant="body2"
+                onClick={() => navigate(`/filters/${filter.id}`)}
+                sx={{ textAlign: 'left' }}
+              >
+                {filter.name}
+              </Link>
+              {!filter.enabled && (
+                <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                  (disabled)
+                </Typography>
+              )}
+              <Typography variant="caption" color="text.secondary" display="block" noWrap>
+                {describeCondition(filter.conditions)}
+              </Typography>
+            </Box>
+            <Typography variant="body2" color="text.secondary" noWrap sx={{ maxWidth: 200 }}>
+              {filter.targetFolder || '-'}
+            </Typography>
+          </Box>
+        ))}
+      </Paper>
+    </Box>
+  );
+}
@@ -0,0 +1,298 @@
+import { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Tooltip,
+  List,
+  ListItem,
+  ListItemText,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { Filter } from '../types';
+import {
+  Database,
+  Registry,
+  RegistryUpdate,
+  addRegistryFolder,
+  addRegistryLabel,
+  setRegistryLabelColor,
+  renameRegistryFolder,
+  renameRegistryLabel,
+  deleteRegistryFolder,
+  deleteRegistryLabel,
+} from '../api/filters';
+
+interface RegistryPageProps {
+  database: Database;
+  registry: Registry;
+  onRegistryChanged: (registry: Registry) => void;
+  onFiltersUpdated: (filters: Filter[]) => void;
+}
+
+interface RenameTarget {
+  kind: 'folder' | 'label';
+  name: string;
+}
+
+function describeUsage(filterCount: number): string {
+  if (filterCount === 0) return 'Not used by any filter';
+  return `Used by ${filterCount} ${filterCount === 1 ? 'filter' : 'filters'}`;
+}
+
+export default function RegistryPage({ database, registry, onRegistryChanged, onFiltersUpdated }: RegistryPageProps) {
+  const [newFolder, setNewFolder] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [renaming, setRenaming] = useState<RenameTarget | null>(null);
+  const [renameTo, setRenameTo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const apply = async (change: Promise<RegistryUpdate>): Promise<boolean> => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { registry: updated, filters } = await change;
+      onRegistryChanged(updated);
+      if (filters.length > 0) {
+        onFiltersUpdated(filters);
+      }
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddFolder = async () => {
+    if (await apply(addRegistryFolder(database, newFolder.trim()))) {
+      setNewFolder('');
+    }
+  };
+
+  const handleAddLabel = async () => {
+    if (await apply(addRegistryLabel(database, newLabel.trim(), null))) {
+      setNewLabel('');
+    }
+  };
+
+  const openRename = (target: RenameTarget) => {
+    setRenaming(target);
+    setRenameTo(target.name);
+    setError(null);
+  };
+
+  // Renaming onto an entry that already exists merges the two
+  const renameTarget = renameTo.trim();
+  const mergesInto =
+    renaming !== null &&
+    renameTarget !== renaming.name &&
+    (renaming.kind === 'folder'
+      ? registry.folders.some((f) => f.path === renameTarget)
+      : registry.labels.some((l) => l.name === renameTarget));
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const change =
+      renaming.kind === 'folder'
+        ? renameRegistryFolder(database, renaming.name, renameTarget, mergesInto)
+        : renameRegistryLabel(database, renaming.name, renameTarget, mergesInto);
+    if (await apply(change)) {
+      setRenaming(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        The folders and labels in your Proton Mail account. Renaming or merging one updates every filter that uses it,
+        and a folder and a label can never share a name.
+      </Typography>
+
+      {error && !renaming && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 3 }}>
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" gutterBottom>
+            Folders
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+            <TextField
+              size="small"
+              placeholder="Parent/Folder"
+              value={newFolder}
+              onChange={(e) => setNewFolder(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && newFolder.trim() && handleAddFolder()}
+              fullWidth
+            />
+            <Button variant="outlined" onClick={handleAddFolder} disabled={busy || !newFolder.trim()}>
+              Add
+            </Button>
+          </Box>
+          <List dense>
+            {registry.folders.map((folder) => {
+              const depth = folder.path.split('/').length - 1;
+              return (
+                <ListItem
+                  key={folder.path}
+                  disableGutters
+                  sx={{ pl: depth * 3 }}
+                  secondaryAction={
+                    <>
+                      <Tooltip title="Rename or merge">
+                        <IconButton size="small" onClick={() => openRename({ kind: 'folder', name: folder.path })}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title={folder.filterCount > 0 ? 'In use' : 'Delete'}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            disabled={busy || folder.filterCount > 0}
+                            onClick={() => apply(deleteRegistryFolder(database, folder.path))}
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </>
+                  }
+                >
+                  <ListItemText
+                    primary={folder.path.split('/').pop()}
+                    secondary={describeUsage(folder.filterCount)}
+                  />
+                </ListItem>
+              );
+            })}
+          </List>
+          {registry.folders.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No folders yet
+            </Typography>
+          )}
+        </Paper>
+
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" gutterBottom>
+            Labels
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+            <TextField
+              size="small"
+              placeholder="Label"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && newLabel.trim() && handleAddLabel()}
+              fullWidth
+            />
+            <Button variant="outlined" onClick={handleAddLabel} disabled={busy || !newLabel.trim()}>
+              Add
+            </Button>
+          </Box>
+          <List dense>
+            {registry.labels.map((label) => (
+              <ListItem
+                key={label.name}
+                disableGutters
+                secondaryAction={
+                  <>
+                    <Tooltip title="Rename or merge">
+                      <IconButton size="small" onClick={() => openRename({ kind: 'label', name: label.name })}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={label.filterCount > 0 ? 'In use' : 'Delete'}>
+                      <span>
+                        <IconButton
+                          size="small"
+                          disabled={busy || label.filterCount > 0}
+                          onClick={() => apply(deleteRegistryLabel(database, label.name))}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </>
+                }
+              >
+                {/* Saved when the picker loses focus, not on every colour it passes through */}
+                <Tooltip title="Colour">
+                  <Box
+                    key={label.color}
+                    component="input"
+                    type="color"
+                    defaultValue={label.color ?? '#8080FF'}
+                    onBlur={(e: React.FocusEvent<HTMLInputElement>) => {
+                      const color = e.target.value.toUpperCase();
+                      if (color !== (label.color ?? '#8080FF')) {
+                        apply(setRegistryLabelColor(database, label.name, color));
+                      }
+                    }}
+                    sx={{ width: 24, height: 24, p: 0, mr: 1.5, border: 'none', background: 'none', cursor: 'pointer' }}
+                  />
+                </Tooltip>
+                <ListItemText primary={label.name} secondary={describeUsage(label.filterCount)} />
+              </ListItem>
+            ))}
+          </List>
+          {registry.labels.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No labels yet
+            </Typography>
+          )}
+        </Paper>
+      </Box>
+
+      <Dialog open={renaming !== null} onClose={() => setRenaming(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Rename {renaming?.kind === 'folder' ? 'Folder' : 'Label'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            value={renameTo}
+            onChange={(e) => setRenameTo(e.target.value)}
+            fullWidth
+            autoFocus
+            size="small"
+            helperText={renaming?.kind === 'folder' ? 'Use "/" to move it under another folder' : undefined}
+            sx={{ mt: 1 }}
+          />
+          {mergesInto && (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              "{renameTarget}" already exists. Every filter using "{renaming?.name}" will use "{renameTarget}" instead.
+            </Alert>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRenaming(null)}>Cancel</Button>
+          <Button
+            onClick={handleRename}
+            variant="contained"
+            disabled={busy || !renameTarget || renameTarget === renaming?.name}
+          >
+            {mergesInto ? 'Merge' : 'Rename'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
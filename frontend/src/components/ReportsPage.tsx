@@ -17,48 +17,251 @@ import {
   Link,
 } from '@mui/material';
 import { useNavigate } from 'react-router-dom';
-import { Filter } from '../types';
+import { Filter, ConditionNode, AddressEntry } from '../types';
+import { getAddressValues, getHeaderNames, describeCondition, describeAddressEntry } from '../utils/conditions';
+import { addressEntryCovers } from '../../../shared/addressMatching';
+import { findFilterOverlaps, FilterOverlap, AddressOverlap } from '../../../shared/filterOverlaps';
+import { getDeploymentStatus, diffDeployedScript, DEPLOYMENT_STATUS_LABELS } from '../utils/deployment';
+import { DiffLine } from '../utils/diffLines';
+import { formatRelativeTime } from '../utils/formatRelativeTime';
 
-interface Report {
+interface FilterListReport {
+  kind: 'filters';
   id: string;
   name: string;
   description: string;
   run: (filters: Filter[]) => Filter[];
 }
 
+interface ReportGroup {
+  key: string;
+  label: string;
+  filters: Filter[];
+}
+
+// Reports that group filters under a shared value, one row per value
+interface GroupedReport {
+  kind: 'grouped';
+  id: string;
+  name: string;
+  description: string;
+  groupHeader: string;
+  groupNoun: [singular: string, plural: string];
+  run: (filters: Filter[]) => ReportGroup[];
+}
+
+interface ScriptChange {
+  filter: Filter;
+  diff: DiffLine[];
+}
+
+// Reports that show, per filter, how its script differs from an earlier one
+interface DiffReport {
+  kind: 'diff';
+  id: string;
+  name: string;
+  description: string;
+  run: (filters: Filter[]) => ScriptChange[];
+}
+
+// Reports on pairs of filters that match the same mail and disagree on it
+interface OverlapReport {
+  kind: 'overlaps';
+  id: string;
+  name: string;
+  description: string;
+  run: (filters: Filter[]) => FilterOverlap[];
+}
+
+type Report = FilterListReport | GroupedReport | DiffReport | OverlapReport;
+
+// Group filters by the header names their conditions test (case-insensitive)
+function groupByHeaderName(filters: Filter[]): ReportGroup[] {
+  const groups = new Map<string, ReportGroup>();
+  for (const filter of filters) {
+    for (const name of new Set(getHeaderNames(filter.conditions))) {
+      const key = name.toLowerCase();
+      const group = groups.get(key) ?? { key, label: name, filters: [] };
+      if (!group.filters.includes(filter)) {
+        group.filters.push(filter);
+      }
+      groups.set(key, group);
+    }
+  }
+  return Array.from(groups.values()).sort((a, b) => b.filters.length - a.filters.length || a.label.localeCompare(b.label));
+}
+
+// From entries a filter matches on alone: a From test, or a group of From tests
+// that any one of is enough for. null when other conditions are involved.
+function getSenderOnlyEntries(conditions: ConditionNode | null): AddressEntry[] | null {
+  if (conditions?.type === 'address' && conditions.header === 'from') {
+    return conditions.entries;
+  }
+  if (conditions?.type === 'anyof' || (conditions?.type === 'allof' && conditions.children.length === 1)) {
+    const entries = conditions.children.map(getSenderOnlyEntries);
+    return entries.length > 0 && entries.every((e) => e !== null) ? entries.flat() : null;
+  }
+  return null;
+}
+
+// From tests a filter requires, each of which has to match for the filter to run
+function getRequiredSenderTests(conditions: ConditionNode | null): AddressEntry[][] {
+  if (conditions?.type === 'address' && conditions.header === 'from') {
+    return [conditions.entries];
+  }
+  if (conditions?.type === 'allof') {
+    return conditions.children.flatMap(getRequiredSenderTests);
+  }
+  return [];
+}
+
+// Group later filters under an earlier filter that stops for all of their senders.
+// Disabled filters are not in the script, so they neither stop nor get stopped.
+function groupByShadowingFilter(filters: Filter[]): ReportGroup[] {
+  const ordered = filters.filter((f) => f.enabled).sort((a, b) => a.priority - b.priority);
+  const groups: ReportGroup[] = [];
+  ordered.forEach((filter, index) => {
+    const files = Boolean(filter.targetFolder) || filter.labels.length > 0 || filter.addYearLabel || Boolean(filter.dateLabel);
+    const senders = filter.stopProcessing && files ? getSenderOnlyEntries(filter.conditions) : null;
+    if (!senders) return;
+    const shadowed = ordered
+      .slice(index + 1)
+      .filter((later) =>
+        getRequiredSenderTests(later.conditions).some((entries) =>
+          entries.every((entry) => senders.some((sender) => addressEntryCovers(sender, entry)))
+        )
+      );
+    if (shadowed.length > 0) {
+      groups.push({ key: filter.id, label: filter.name, filters: shadowed });
+    }
+  });
+  return groups;
+}
+
 const reports: Report[] = [
   {
+    kind: 'filters',
     id: 'no-from-address',
     name: 'Filters without From address',
     description: 'Lists all filters that do not specify any From addresses',
-    run: (filters) => filters.filter((f) => f.fromAddresses.length === 0 || f.fromAddresses.every((a) => !a.trim())),
+    run: (filters) => filters.filter((f) => getAddressValues(f.conditions, 'from').every((a) => !a.trim())),
   },
   {
+    kind: 'filters',
     id: 'no-to-address',
     name: 'Filters without To address',
     description: 'Lists all filters that do not specify a To address',
-    run: (filters) => filters.filter((f) => !f.toAddress),
+    run: (filters) => filters.filter((f) => getAddressValues(f.conditions, 'to').length === 0),
   },
   {
+    kind: 'filters',
     id: 'no-labels',
     name: 'Filters without labels',
     description: 'Lists all filters that do not have any labels assigned',
     run: (filters) => filters.filter((f) => f.labels.length === 0),
   },
   {
+    kind: 'filters',
     id: 'no-expiration',
     name: 'Filters without expiration',
     description: 'Lists all filters that do not have an expiration set',
     run: (filters) => filters.filter((f) => f.expirationDays === null),
   },
   {
+    kind: 'filters',
     id: 'no-folder',
     name: 'Filters without target folder',
     description: 'Lists all filters that do not move emails to a folder',
     run: (filters) => filters.filter((f) => !f.targetFolder),
   },
+  {
+    kind: 'grouped',
+    id: 'header-names',
+    name: 'Header names in use',
+    description: 'Lists every header tested by filter conditions, such as From, Subject or List-Id, and the filters that test it',
+    groupHeader: 'Header',
+    groupNoun: ['header name', 'header names'],
+    run: groupByHeaderName,
+  },
+  {
+    kind: 'grouped',
+    id: 'shadowed-by-stop',
+    name: 'Filters that never run',
+    description:
+      'Lists filters that stop processing for every sender a later filter requires, so the later filters never run. Move them above the stopping filter or turn off its stop.',
+    groupHeader: 'Stopping filter',
+    groupNoun: ['stopping filter', 'stopping filters'],
+    run: groupByShadowingFilter,
+  },
+  {
+    kind: 'overlaps',
+    id: 'overlapping-filters',
+    name: 'Overlapping filters',
+    description:
+      'Lists pairs of enabled filters whose From or To conditions can match the same address and whose actions then conflict, such as filing into different folders, with the filter that wins. Subject and other header conditions are not compared.',
+    run: findFilterOverlaps,
+  },
+  {
+    kind: 'diff',
+    id: 'needs-redeploy',
+    name: 'Filters out of sync with Proton',
+    description:
+      'Lists filters whose script has changed since they were marked as deployed, or that were never marked, with the changes to paste into Proton Mail',
+    run: (filters) =>
+      filters
+        .filter((f) => getDeploymentStatus(f) !== 'current')
+        .map((filter) => ({ filter, diff: diffDeployedScript(filter) })),
+  },
 ];
 
+function FilterLink({ filter, onClick }: { filter: Filter; onClick: (id: string) => void }) {
+  return (
+    <Link
+      component="button"
+      variant="body2"
+      onClick={() => onClick(filter.id)}
+      sx={{ textAlign: 'left' }}
+    >
+      {filter.name}
+    </Link>
+  );
+}
+
+const DIFF_STYLES: Record<DiffLine['type'], { prefix: string; backgroundColor: string }> = {
+  same: { prefix: '  ', backgroundColor: 'transparent' },
+  added: { prefix: '+ ', backgroundColor: 'rgba(102, 187, 106, 0.15)' },
+  removed: { prefix: '- ', backgroundColor: 'rgba(244, 67, 54, 0.15)' },
+};
+
+function describeAddressOverlap({ header, first, second }: AddressOverlap): string {
+  const label = header === 'from' ? 'From' : 'To';
+  return `${label} ${describeAddressEntry(first)} and ${describeAddressEntry(second)}`;
+}
+
+function ScriptDiff({ lines }: { lines: DiffLine[] }) {
+  return (
+    <Box
+      component="pre"
+      sx={{
+        backgroundColor: 'rgba(0, 0, 0, 0.2)',
+        borderRadius: 1,
+        overflow: 'auto',
+        fontSize: '0.8125rem',
+        fontFamily: 'monospace',
+        m: 0,
+        py: 1,
+      }}
+    >
+      {lines.map((line, index) => (
+        <Box key={index} sx={{ px: 2, backgroundColor: DIFF_STYLES[line.type].backgroundColor }}>
+          {DIFF_STYLES[line.type].prefix}
+          {line.text}
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
 interface ReportsPageProps {
   filters: Filter[];
   selectedReportId: string;
@@ -71,10 +274,27 @@ export default function ReportsPage({ filters, selectedReportId, onSelectedRepor
   const selectedReport = reports.find((r) => r.id === selectedReportId);
 
   const results = useMemo(() => {
-    if (!selectedReport) return [];
+    if (!selectedReport || selectedReport.kind !== 'filters') return [];
+    return selectedReport.run(filters);
+  }, [selectedReport, filters]);
+
+  const groups = useMemo(() => {
+    if (!selectedReport || selectedReport.kind !== 'grouped') return [];
     return selectedReport.run(filters);
   }, [selectedReport, filters]);
 
+  const changes = useMemo(() => {
+    if (!selectedReport || selectedReport.kind !== 'diff') return [];
+    return selectedReport.run(filters);
+  }, [selectedReport, filters]);
+
+  const overlaps = useMemo(() => {
+    if (!selectedReport || selectedReport.kind !== 'overlaps') return [];
+    return selectedReport.run(filters);
+  }, [selectedReport, filters]);
+
+  const filtersById = useMemo(() => new Map(filters.map((f) => [f.id, f])), [filters]);
+
   const handleReportChange = (event: SelectChangeEvent) => {
     onSelectedReportIdChange(event.target.value);
   };
@@ -100,7 +320,7 @@ export default function ReportsPage({ filters, selectedReportId, onSelectedRepor
         </Select>
       </FormControl>
 
-      {selectedReport && (
+      {selectedReport?.kind === 'filters' && (
         <Box>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
             {selectedReport.description}
@@ -116,7 +336,7 @@ export default function ReportsPage({ filters, selectedReportId, onSelectedRepor
                 <TableHead>
                   <TableRow>
                     <TableCell>Name</TableCell>
-                    <TableCell>From Addresses</TableCell>
+                    <TableCell>Conditions</TableCell>
                     <TableCell>Target Folder</TableCell>
                   </TableRow>
                 </TableHead>
@@ -124,20 +344,9 @@ export default function ReportsPage({ filters, selectedReportId, onSelectedRepor
                   {results.map((filter) => (
                     <TableRow key={filter.id} hover>
                       <TableCell>
-                        <Link
-                          component="button"
-                          variant="body2"
-                          onClick={() => handleFilterClick(filter.id)}
-                          sx={{ textAlign: 'left' }}
-                        >
-                          {filter.name}
-                        </Link>
-                      </TableCell>
-                      <TableCell>
-                        {filter.fromAddresses.length > 0
-                          ? filter.fromAddresses.join(', ')
-                          : '-'}
+                        <FilterLink filter={filter} onClick={handleFilterClick} />
                       </TableCell>
+                      <TableCell>{describeCondition(filter.conditions)}</TableCell>
                       <TableCell>{filter.targetFolder || '-'}</TableCell>
                     </TableRow>
                   ))}
@@ -151,6 +360,133 @@ export default function ReportsPage({ filters, selectedReportId, onSelectedRepor
           </Typography>
         </Box>
       )}
+
+      {selectedReport?.kind === 'grouped' && (
+        <Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+            {selectedReport.description}
+          </Typography>
+
+          {groups.length === 0 ? (
+            <Typography color="text.secondary">
+              No filters match this report criteria.
+            </Typography>
+          ) : (
+            <TableContainer component={Paper}>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{selectedReport.groupHeader}</TableCell>
+                    <TableCell>Filters</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {groups.map((group) => (
+                    <TableRow key={group.key} hover>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{group.label}</TableCell>
+                      <TableCell>
+                        {group.filters.map((filter, index) => (
+                          <span key={filter.id}>
+                            {index > 0 && ', '}
+                            <FilterLink filter={filter} onClick={handleFilterClick} />
+                          </span>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            {groups.length} {groups.length === 1 ? selectedReport.groupNoun[0] : selectedReport.groupNoun[1]} found
+          </Typography>
+        </Box>
+      )}
+
+      {selectedReport?.kind === 'overlaps' && (
+        <Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+            {selectedReport.description}
+          </Typography>
+
+          {overlaps.length === 0 ? (
+            <Typography color="text.secondary">
+              No filters match this report criteria.
+            </Typography>
+          ) : (
+            <TableContainer component={Paper}>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Runs first</TableCell>
+                    <TableCell>Runs later</TableCell>
+                    <TableCell>Both match</TableCell>
+                    <TableCell>Conflict</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {overlaps.map((overlap) => (
+                    <TableRow key={`${overlap.first.id}-${overlap.second.id}`} hover>
+                      {[overlap.first, overlap.second].map((entry) => (
+                        <TableCell key={entry.id} sx={{ whiteSpace: 'nowrap' }}>
+                          #{entry.position}{' '}
+                          <FilterLink filter={filtersById.get(entry.id)!} onClick={handleFilterClick} />
+                        </TableCell>
+                      ))}
+                      <TableCell>{overlap.addresses.map(describeAddressOverlap).join('; ')}</TableCell>
+                      <TableCell>
+                        {overlap.conflicts.map((conflict) => (
+                          <Typography key={conflict} variant="body2">
+                            {conflict}
+                          </Typography>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            {overlaps.length} overlapping {overlaps.length === 1 ? 'pair' : 'pairs'} found
+          </Typography>
+        </Box>
+      )}
+
+      {selectedReport?.kind === 'diff' && (
+        <Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+            {selectedReport.description}
+          </Typography>
+
+          {changes.length === 0 ? (
+            <Typography color="text.secondary">
+              No filters match this report criteria.
+            </Typography>
+          ) : (
+            changes.map(({ filter, diff }) => (
+              <Paper key={filter.id} sx={{ p: 2, mb: 2 }}>
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'baseline', mb: 1 }}>
+                  <FilterLink filter={filter} onClick={handleFilterClick} />
+                  <Typography variant="body2" color="text.secondary">
+                    {filter.deployment
+                      ? `${DEPLOYMENT_STATUS_LABELS.outdated}, marked as deployed ${formatRelativeTime(new Date(filter.deployment.deployedAt))}`
+                      : DEPLOYMENT_STATUS_LABELS.never}
+                  </Typography>
+                </Box>
+                <ScriptDiff lines={diff} />
+              </Paper>
+            ))
+          )}
+
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            {changes.length} {changes.length === 1 ? 'filter' : 'filters'} found
+          </Typography>
+        </Box>
+      )}
     </Box>
   );
 }
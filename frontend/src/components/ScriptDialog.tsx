@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -11,12 +11,18 @@ import {
 } from '@mui/material';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import { Filter } from '../types';
-import { generateSieveScript } from '../utils/generateSieveScript';
+import { Database, markFilterDeployed } from '../api/filters';
+import { getDeploymentStatus, DEPLOYMENT_STATUS_LABELS } from '../utils/deployment';
+import { formatRelativeTime } from '../utils/formatRelativeTime';
+import { generateSieveScript, getScriptBody } from '../../../shared/generateSieveScript';
+import { validateSieveScript } from '../../../shared/sieveValidator';
 
 interface ScriptDialogProps {
   open: boolean;
   filter: Filter | null;
+  database: Database;
   onClose: () => void;
+  onDeployed: (filter: Filter) => void;
 }
 
 // Fallback for copying text when clipboard API is unavailable (non-HTTPS)
@@ -43,17 +49,28 @@ function copyToClipboard(text: string): Promise<void> {
   });
 }
 
-export default function ScriptDialog({ open, filter, onClose }: ScriptDialogProps) {
+export default function ScriptDialog({ open, filter, database, onClose, onDeployed }: ScriptDialogProps) {
   const [copied, setCopied] = useState(false);
+  const [marking, setMarking] = useState(false);
   const script = filter ? generateSieveScript(filter) : '';
+  // Never hand out a script the server would reject
+  const issues = useMemo(() => validateSieveScript(script), [script]);
+  const valid = issues.length === 0;
+  // Without the "# Generated:" line, which changes every minute
+  const scriptBody = getScriptBody(script);
+  // The effect copies the latest script but only runs when its body changes
+  const scriptRef = useRef(script);
+  scriptRef.current = script;
 
+  // Keyed on the script body rather than the filter, so marking it as
+  // deployed, or the minute turning over, does not copy it again
   useEffect(() => {
-    if (open && filter) {
-      copyToClipboard(script).then(() => {
+    if (open && scriptBody && valid) {
+      copyToClipboard(scriptRef.current).then(() => {
         setCopied(true);
       }).catch(() => {});
     }
-  }, [open, filter, script]);
+  }, [open, scriptBody, valid]);
 
   const handleCopyClick = () => {
     copyToClipboard(script).then(() => {
@@ -61,6 +78,21 @@ export default function ScriptDialog({ open, filter, onClose }: ScriptDialogProp
     }).catch(() => {});
   };
 
+  // The user confirms they pasted this script into Proton Mail
+  const handleMarkDeployed = async () => {
+    if (!filter) return;
+    setMarking(true);
+    try {
+      onDeployed(await markFilterDeployed(database, filter.id));
+    } catch (error) {
+      console.error('Failed to mark filter as deployed:', error);
+    } finally {
+      setMarking(false);
+    }
+  };
+
+  const deploymentStatus = filter ? getDeploymentStatus(filter) : 'never';
+
   const handleClose = () => {
     setCopied(false);
     onClose();
@@ -75,6 +107,18 @@ export default function ScriptDialog({ open, filter, onClose }: ScriptDialogProp
       <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
         <DialogTitle>Sieve Script: {filter?.name}</DialogTitle>
         <DialogContent>
+          {issues.length > 0 && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              This script is not valid Sieve and was not copied. Edit the filter to fix:
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {issues.map((issue, index) => (
+                  <li key={index}>
+                    Line {issue.line}: {issue.message}
+                  </li>
+                ))}
+              </Box>
+            </Alert>
+          )}
           <Box
             component="pre"
             sx={{
@@ -90,12 +134,25 @@ export default function ScriptDialog({ open, filter, onClose }: ScriptDialogProp
           >
             {script}
           </Box>
+          {filter?.deployment && (
+            <Alert severity={deploymentStatus === 'current' ? 'success' : 'warning'} sx={{ mt: 2 }}>
+              {DEPLOYMENT_STATUS_LABELS[deploymentStatus]}: marked as deployed{' '}
+              {formatRelativeTime(new Date(filter.deployment.deployedAt))}
+              {deploymentStatus === 'outdated' && ', and the script has changed since'}.
+            </Alert>
+          )}
           <Alert severity="info" sx={{ mt: 2 }}>
-            Labels and folders must exist in Proton Mail before the filter can apply them. Create them in Settings → Folders and labels.
+            Labels and folders must exist in Proton Mail before the filter can apply them. Create them in Settings → Folders and labels, or use Check Folders on the filters list to find and create missing ones through Proton Bridge.
           </Alert>
         </DialogContent>
         <DialogActions>
-          <Button onClick={handleCopyClick} startIcon={<ContentCopyIcon />}>
+          <Button
+            onClick={handleMarkDeployed}
+            disabled={issues.length > 0 || marking || deploymentStatus === 'current'}
+          >
+            Mark as Deployed
+          </Button>
+          <Button onClick={handleCopyClick} startIcon={<ContentCopyIcon />} disabled={issues.length > 0}>
             Copy to Clipboard
           </Button>
           <Button onClick={handleClose} variant="contained">
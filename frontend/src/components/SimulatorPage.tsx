@@ -0,0 +1,166 @@
+import { useState, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Link,
+  Alert,
+  Stack,
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { useNavigate } from 'react-router-dom';
+import { Filter } from '../types';
+import { parseEmail, simulateEmail, ParsedEmail } from '../utils/simulateEmail';
+import { describeFlag } from '../utils/flags';
+import { Database } from '../api/filters';
+import AddressLookup from './AddressLookup';
+
+interface SimulatorPageProps {
+  filters: Filter[];
+  database: Database;
+}
+
+function SummaryRow({ label, value }: { label: string; value: string }) {
+  return (
+    <Box sx={{ display: 'flex', gap: 2 }}>
+      <Typography variant="body2" color="text.secondary" sx={{ minWidth: 140 }}>
+        {label}
+      </Typography>
+      <Typography variant="body2">{value}</Typography>
+    </Box>
+  );
+}
+
+export default function SimulatorPage({ filters, database }: SimulatorPageProps) {
+  const navigate = useNavigate();
+  const [fileName, setFileName] = useState('');
+  const [email, setEmail] = useState<ParsedEmail | null>(null);
+  const [isDeleted, setIsDeleted] = useState(false);
+
+  const result = useMemo(
+    () => (email ? simulateEmail(filters, email, isDeleted) : null),
+    [filters, email, isDeleted]
+  );
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setEmail(parseEmail(await file.text()));
+    // Allow the same file to be selected again after edits to the filters
+    event.target.value = '';
+  };
+
+  const handleFilterClick = (filterId: string) => {
+    navigate(`/filters/${filterId}`, { state: { returnTo: '/simulator' } });
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Look Up an Address
+      </Typography>
+      <AddressLookup key={database} database={database} onFilterClick={handleFilterClick} />
+
+      <Typography variant="h6" gutterBottom sx={{ mt: 4 }}>
+        Simulate a Message
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Upload a message saved as an .eml file to see what the filters in this database would do with it.
+      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+        <Button component="label" variant="contained" startIcon={<UploadFileIcon />}>
+          Choose .eml File
+          <input type="file" accept=".eml,message/rfc822" hidden onChange={handleFileChange} />
+        </Button>
+        {fileName && (
+          <Typography variant="body2" color="text.secondary">
+            {fileName}
+          </Typography>
+        )}
+        <FormControlLabel
+          control={<Checkbox checked={isDeleted} onChange={(e) => setIsDeleted(e.target.checked)} />}
+          label="Message is already in Trash"
+        />
+      </Box>
+
+      {email && result && (
+        <Stack spacing={3}>
+          <Paper sx={{ p: 2 }}>
+            <SummaryRow label="From" value={email.from.join(', ') || '-'} />
+            <SummaryRow label="To" value={email.to.join(', ') || '-'} />
+            <SummaryRow label="Subject" value={email.subject || '-'} />
+          </Paper>
+
+          {result.skippedAsDeleted ? (
+            <Alert severity="info">
+              Every filter skips messages flagged as deleted, so nothing would happen.
+            </Alert>
+          ) : result.firstMatch === null ? (
+            <Alert severity="warning">No filter matches this message. It would stay in the Inbox.</Alert>
+          ) : (
+            <Paper sx={{ p: 2 }}>
+              <SummaryRow label="First match" value={result.firstMatch.name} />
+              <SummaryRow label="Folder" value={result.folder || 'Inbox'} />
+              <SummaryRow label="Labels" value={result.labels.join(', ') || '-'} />
+              <SummaryRow
+                label="Expires"
+                value={result.expirationDays !== null ? `After ${result.expirationDays} days` : 'Never'}
+              />
+              <SummaryRow label="Flags" value={result.flags.map(describeFlag).join(', ') || '-'} />
+              <SummaryRow
+                label="Auto-reply"
+                value={result.vacation ? result.vacation.subject || result.vacation.body.split('\n')[0] : 'No'}
+              />
+              <SummaryRow
+                label="Processing"
+                value={result.stoppedBy ? `Stops after "${result.stoppedBy.name}"` : 'Continues to the end'}
+              />
+            </Paper>
+          )}
+
+          {result.matches.length > 0 && (
+            <TableContainer component={Paper}>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Matching Filter</TableCell>
+                    <TableCell>Why</TableCell>
+                    <TableCell>Target Folder</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.matches.map((match) => (
+                    <TableRow key={match.filter.id} hover>
+                      <TableCell>
+                        <Link
+                          component="button"
+                          variant="body2"
+                          onClick={() => handleFilterClick(match.filter.id)}
+                          sx={{ textAlign: 'left' }}
+                        >
+                          {match.filter.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{match.reasons.join('; ')}</TableCell>
+                      <TableCell>{match.filter.targetFolder || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Stack>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  Typography,
+} from '@mui/material';
+import { exportThunderbirdFilters, Database, ThunderbirdExportResult } from '../api/filters';
+import { downloadFile } from '../utils/downloadFile';
+import ExportIssues from './ExportIssues';
+
+interface ThunderbirdExportDialogProps {
+  open: boolean;
+  database: Database;
+  onClose: () => void;
+}
+
+export default function ThunderbirdExportDialog({ open, database, onClose }: ThunderbirdExportDialogProps) {
+  const [account, setAccount] = useState('imap://user%40proton.me@127.0.0.1');
+  const [result, setResult] = useState<ThunderbirdExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const exported = await exportThunderbirdFilters(database, account.trim());
+      downloadFile(exported.rules, 'msgFilterRules.dat');
+      setResult(exported);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The account is kept for the next export
+  const handleClose = () => {
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Export for Thunderbird</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          Folders are written as locations in your Proton Bridge account. Enter the account's folder URI, shown as the
+          location in Thunderbird's Folder Properties without the folder name.
+        </Typography>
+        <TextField
+          label="Account folder URI"
+          value={account}
+          onChange={(e) => {
+            setAccount(e.target.value);
+            setResult(null);
+          }}
+          fullWidth
+          size="small"
+          spellCheck={false}
+        />
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {result && (
+          <>
+            <Alert severity="success" sx={{ mt: 2 }}>
+              Exported {result.exported} {result.exported === 1 ? 'filter' : 'filters'}. With Thunderbird closed,
+              replace msgFilterRules.dat in the account's folder under your profile's ImapMail directory. Labels become
+              tags, which must exist in Thunderbird with the same names.
+            </Alert>
+            <ExportIssues issues={result.issues} />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>{result ? 'Close' : 'Cancel'}</Button>
+        {!result && (
+          <Button onClick={handleExport} variant="contained" disabled={busy || !account.trim()}>
+            Export
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
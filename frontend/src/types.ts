@@ -1,12 +1,27 @@
-export interface Filter {
+import { FilterDeployment, FilterSettings } from '../../shared/types';
+
+export type {
+  AddressMatchMode,
+  AddressEntry,
+  AddressCondition,
+  MatchType,
+  SubjectCondition,
+  HeaderCondition,
+  AllOfCondition,
+  AnyOfCondition,
+  NotCondition,
+  ConditionNode,
+  VacationAction,
+  FilterDeployment,
+  FilterSettings,
+  BulkEdit,
+} from '../../shared/types';
+
+export interface Filter extends FilterSettings {
   id: string;
-  name: string;
-  fromAddresses: string[];
-  toAddress: string;
-  expirationDays: number | null;
-  markRead: boolean;
-  addYearLabel: boolean;
-  targetFolder: string;
-  labels: string[];
+  // Position in the generated script; lower runs first
+  priority: number;
   updatedAt: Date;
+  // null until the filter is marked as deployed
+  deployment: FilterDeployment | null;
 }
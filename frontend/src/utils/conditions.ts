@@ -0,0 +1,95 @@
+import { ConditionNode, AddressCondition, AddressEntry, MatchType } from '../types';
+import { ADDRESS_MODE_LABELS } from '../../../shared/addressMatching';
+
+const HEADER_LABELS: Record<AddressCondition['header'], string> = {
+  from: 'From',
+  to: 'To',
+};
+
+export const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  contains: 'contains',
+  is: 'is',
+  matches: 'matches',
+};
+
+export { ADDRESS_MODE_LABELS };
+
+export function describeAddressEntry(entry: AddressEntry): string {
+  switch (entry.mode) {
+    case 'exact':
+    case 'wildcard':
+      return entry.value;
+    case 'domain':
+      return `@${entry.value}`;
+    case 'subdomains':
+      return `@${entry.value} or *.${entry.value}`;
+    case 'localpart':
+      return `${entry.value}@*`;
+    case 'domain-contains':
+      return `domain containing "${entry.value}"`;
+  }
+}
+
+// Every address leaf in the tree, including negated ones
+export function getAddressConditions(node: ConditionNode | null): AddressCondition[] {
+  if (!node) return [];
+  switch (node.type) {
+    case 'address':
+      return [node];
+    case 'subject':
+    case 'header':
+      return [];
+    case 'allof':
+    case 'anyof':
+      return node.children.flatMap(getAddressConditions);
+    case 'not':
+      return getAddressConditions(node.child);
+  }
+}
+
+export function getAddressValues(node: ConditionNode | null, header: AddressCondition['header']): string[] {
+  return getAddressConditions(node)
+    .filter((c) => c.header === header)
+    .flatMap((c) => c.entries.map((e) => e.value));
+}
+
+// Names of every header the tree tests, e.g. ["From", "Subject", "List-Id"]
+export function getHeaderNames(node: ConditionNode | null): string[] {
+  if (!node) return [];
+  switch (node.type) {
+    case 'address':
+      return [HEADER_LABELS[node.header]];
+    case 'subject':
+      return ['Subject'];
+    case 'header':
+      return [node.name];
+    case 'allof':
+    case 'anyof':
+      return node.children.flatMap(getHeaderNames);
+    case 'not':
+      return getHeaderNames(node.child);
+  }
+}
+
+// Human-readable summary, e.g. `From a@x.com, shop.com and not (To me@x.com)`
+export function describeCondition(node: ConditionNode | null): string {
+  if (!node) return 'All messages';
+  switch (node.type) {
+    case 'address':
+      return `${HEADER_LABELS[node.header]} ${node.entries.map(describeAddressEntry).join(', ')}`;
+    case 'subject':
+      return `Subject ${MATCH_TYPE_LABELS[node.matchType]} ${node.values.map((v) => `"${v}"`).join(', ')}`;
+    case 'header':
+      return `${node.name} ${MATCH_TYPE_LABELS[node.matchType]} ${node.values.map((v) => `"${v}"`).join(', ')}`;
+    case 'allof':
+    case 'anyof': {
+      if (node.children.length === 0) return node.type === 'allof' ? 'All messages' : 'No messages';
+      const joiner = node.type === 'allof' ? ' and ' : ' or ';
+      return node.children
+        .map((child) => (child.type === 'allof' || child.type === 'anyof' ? `(${describeCondition(child)})` : describeCondition(child)))
+        .join(joiner);
+    }
+    case 'not':
+      return `not (${describeCondition(node.child)})`;
+  }
+}
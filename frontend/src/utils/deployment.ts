@@ -0,0 +1,25 @@
+import { Filter } from '../types';
+import { generateSieveScript, getScriptBody } from '../../../shared/generateSieveScript';
+import { diffLines, DiffLine } from './diffLines';
+
+export type DeploymentStatus = 'current' | 'outdated' | 'never';
+
+export const DEPLOYMENT_STATUS_LABELS: Record<DeploymentStatus, string> = {
+  current: 'Deployed',
+  outdated: 'Needs redeploy',
+  never: 'Not deployed',
+};
+
+// Compare the script the filter would generate now with the one marked as
+// deployed, ignoring when each was generated
+export function getDeploymentStatus(filter: Filter): DeploymentStatus {
+  if (!filter.deployment) return 'never';
+  const current = getScriptBody(generateSieveScript(filter));
+  return current === getScriptBody(filter.deployment.script) ? 'current' : 'outdated';
+}
+
+// What changed in the filter's script since it was marked as deployed
+export function diffDeployedScript(filter: Filter): DiffLine[] {
+  const deployed = filter.deployment ? getScriptBody(filter.deployment.script) : '';
+  return diffLines(deployed.split('\n'), getScriptBody(generateSieveScript(filter)).split('\n'));
+}
@@ -0,0 +1,15 @@
+// IMAP flags the form offers as checkboxes. Anything else in a filter's
+// flags list is a system flag set by an import or a custom keyword.
+export const SEEN_FLAG = '\\Seen';
+export const FLAGGED_FLAG = '\\Flagged';
+
+export function describeFlag(flag: string): string {
+  switch (flag) {
+    case SEEN_FLAG:
+      return 'Read';
+    case FLAGGED_FLAG:
+      return 'Starred';
+    default:
+      return flag;
+  }
+}
@@ -0,0 +1,264 @@
+import {
+  Filter,
+  ConditionNode,
+  AddressCondition,
+  SubjectCondition,
+  HeaderCondition,
+  MatchType,
+  VacationAction,
+} from '../types';
+import { describeCondition, ADDRESS_MODE_LABELS } from './conditions';
+import { formatDateLabel } from '../../../shared/dateLabels';
+import { matchAddressEntry, wildcardToRegExp } from '../../../shared/addressMatching';
+
+export interface ParsedEmail {
+  headers: Record<string, string[]>;
+  from: string[];
+  to: string[];
+  subject: string;
+}
+
+export interface FilterMatch {
+  filter: Filter;
+  reasons: string[];
+  stopped: boolean;
+}
+
+export interface SimulationResult {
+  matches: FilterMatch[];
+  firstMatch: Filter | null;
+  stoppedBy: Filter | null;
+  skippedAsDeleted: boolean;
+  folder: string;
+  labels: string[];
+  expirationDays: number | null;
+  flags: string[];
+  // Only one auto-reply is sent per message, so the first one wins
+  vacation: VacationAction | null;
+}
+
+// Read the header section of an RFC 822 message, unfolding continuation lines
+export function parseEmail(raw: string): ParsedEmail {
+  const headerSection = raw.split(/\r?\n\r?\n/)[0];
+  const headers: Record<string, string[]> = {};
+  let current: { name: string; value: string } | null = null;
+
+  const flush = () => {
+    if (current) {
+      const key = current.name.toLowerCase();
+      headers[key] = [...(headers[key] ?? []), current.value.trim()];
+    }
+  };
+
+  for (const line of headerSection.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && current) {
+      current.value += ' ' + line.trim();
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    flush();
+    current = { name: line.slice(0, colon).trim(), value: line.slice(colon + 1) };
+  }
+  flush();
+
+  return {
+    headers,
+    from: (headers['from'] ?? []).flatMap(extractAddresses),
+    to: (headers['to'] ?? []).flatMap(extractAddresses),
+    subject: decodeEncodedWords((headers['subject'] ?? [''])[0]),
+  };
+}
+
+// Decode RFC 2047 encoded words such as =?UTF-8?B?...?= so tests see the real text
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (word, charset: string, encoding: string, text: string) => {
+      try {
+        const bytes =
+          encoding.toUpperCase() === 'B'
+            ? Uint8Array.from(atob(text), (c) => c.charCodeAt(0))
+            : Uint8Array.from(
+                text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+                (c) => c.charCodeAt(0)
+              );
+        return new TextDecoder(charset).decode(bytes);
+      } catch {
+        return word;
+      }
+    });
+}
+
+// Extract the addr-spec parts from an address header such as
+// `"Shop, Inc" <news@shop.com>, other@example.com`
+export function extractAddresses(value: string): string[] {
+  const parts: string[] = [];
+  let buffer = '';
+  let inQuotes = false;
+  let depth = 0;
+
+  for (const ch of value) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if (!inQuotes && ch === '<') depth++;
+    if (!inQuotes && ch === '>') depth--;
+    if (ch === ',' && !inQuotes && depth === 0) {
+      parts.push(buffer);
+      buffer = '';
+    } else {
+      buffer += ch;
+    }
+  }
+  parts.push(buffer);
+
+  return parts
+    .map((part) => {
+      const angle = /<([^>]*)>/.exec(part);
+      const address = angle ? angle[1] : part.replace(/\([^)]*\)/g, '').replace(/^.*:/, '').replace(/;$/, '');
+      return address.trim().toLowerCase();
+    })
+    .filter((address) => address.includes('@'));
+}
+
+function matchAddress(condition: AddressCondition, email: ParsedEmail): string | null {
+  const headerLabel = condition.header === 'from' ? 'From' : 'To';
+  for (const entry of condition.entries) {
+    const hit = email[condition.header].find((address) => matchAddressEntry(entry, address));
+    if (hit) {
+      return `${headerLabel} "${hit}" matches ${ADDRESS_MODE_LABELS[entry.mode].toLowerCase()} "${entry.value}"`;
+    }
+  }
+  return null;
+}
+
+// Compare with the default i;ascii-casemap comparator (case-insensitive)
+function matchText(matchType: MatchType, key: string, text: string): boolean {
+  switch (matchType) {
+    case 'contains':
+      return text.toLowerCase().includes(key.toLowerCase());
+    case 'is':
+      return text.toLowerCase() === key.toLowerCase();
+    case 'matches':
+      return wildcardToRegExp(key).test(text);
+  }
+}
+
+// A header test matches when any occurrence of the header matches any value
+function matchHeader(condition: SubjectCondition | HeaderCondition, email: ParsedEmail): string | null {
+  const name = condition.type === 'subject' ? 'Subject' : condition.name;
+  const texts = condition.type === 'subject' ? [email.subject] : (email.headers[name.toLowerCase()] ?? []).map(decodeEncodedWords);
+  for (const value of condition.values) {
+    if (texts.some((text) => matchText(condition.matchType, value, text))) {
+      return `${name} ${condition.matchType} "${value}"`;
+    }
+  }
+  return null;
+}
+
+// Evaluate a condition tree, adding the reasons of the leaves that made it match
+function evaluate(node: ConditionNode, email: ParsedEmail, reasons: string[]): boolean {
+  switch (node.type) {
+    case 'address': {
+      const reason = matchAddress(node, email);
+      if (reason) reasons.push(reason);
+      return reason !== null;
+    }
+    case 'subject':
+    case 'header': {
+      const reason = matchHeader(node, email);
+      if (reason) reasons.push(reason);
+      return reason !== null;
+    }
+    case 'allof': {
+      const local: string[] = [];
+      const matched = node.children.every((child) => evaluate(child, email, local));
+      if (matched) reasons.push(...local);
+      return matched;
+    }
+    case 'anyof':
+      return node.children.some((child) => evaluate(child, email, reasons));
+    case 'not': {
+      const matched = !evaluate(node.child, email, []);
+      if (matched) reasons.push(`Not ${describeCondition(node.child)}`);
+      return matched;
+    }
+  }
+}
+
+function matchFilter(filter: Filter, email: ParsedEmail): string[] | null {
+  if (!filter.conditions) {
+    return ['Filter has no conditions and matches every message'];
+  }
+  const reasons: string[] = [];
+  if (!evaluate(filter.conditions, email, reasons)) return null;
+  if (reasons.length === 0) {
+    reasons.push('Conditions match every message');
+  }
+  return reasons;
+}
+
+// Run a message through the enabled filters in priority order, applying actions until a stop
+export function simulateEmail(filters: Filter[], email: ParsedEmail, isDeleted = false): SimulationResult {
+  const result: SimulationResult = {
+    matches: [],
+    firstMatch: null,
+    stoppedBy: null,
+    skippedAsDeleted: isDeleted,
+    folder: '',
+    labels: [],
+    expirationDays: null,
+    flags: [],
+    vacation: null,
+  };
+
+  // Every generated filter starts with `not hasflag "\\Deleted"`
+  if (isDeleted) {
+    return result;
+  }
+
+  // Year and date labels are filled in from the delivery date, which is now
+  const deliveredAt = new Date();
+
+  const ordered = filters.filter((f) => f.enabled).sort((a, b) => a.priority - b.priority);
+  for (const filter of ordered) {
+    const reasons = matchFilter(filter, email);
+    if (!reasons) continue;
+
+    const labels = [...filter.labels];
+    const dateFormats = [...(filter.addYearLabel ? ['YYYY'] : []), ...(filter.dateLabel ? [filter.dateLabel] : [])];
+    for (const label of dateFormats.map((format) => formatDateLabel(format, deliveredAt))) {
+      if (!labels.includes(label)) {
+        labels.push(label);
+      }
+    }
+    const stopped = (Boolean(filter.targetFolder) || labels.length > 0) && filter.stopProcessing;
+
+    result.matches.push({ filter, reasons, stopped });
+    result.firstMatch ??= filter;
+    if (filter.expirationDays !== null) {
+      result.expirationDays = filter.expirationDays;
+    }
+    for (const flag of filter.flags) {
+      if (!result.flags.includes(flag)) {
+        result.flags.push(flag);
+      }
+    }
+    if (filter.vacation) {
+      result.vacation ??= filter.vacation;
+    }
+    for (const label of labels) {
+      if (!result.labels.includes(label)) {
+        result.labels.push(label);
+      }
+    }
+    if (filter.targetFolder) {
+      result.folder = filter.targetFolder;
+    }
+    if (stopped) {
+      result.stoppedBy = filter;
+      break;
+    }
+  }
+
+  return result;
+}
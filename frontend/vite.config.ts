@@ -6,6 +6,10 @@ export default defineConfig({
   server: {
     host: '0.0.0.0',
     port: 5173,
+    fs: {
+      // Allow the generator and types in ../shared
+      allow: ['..'],
+    },
     watch: {
       usePolling: true,
     },
@@ -0,0 +1,124 @@
+import { FilterSettings, ConditionNode } from './types';
+import { ADDRESS_MODE_LABELS, matchAddressEntry } from './addressMatching';
+import { formatDateLabel } from './dateLabels';
+
+// Filters as both packages store them: settings plus an id and a priority
+type OrderedFilter = FilterSettings & { id: string; priority: number };
+
+export interface LookupMatch {
+  id: string;
+  name: string;
+  // 1-based place among the enabled filters, in the order the script runs them
+  position: number;
+  // False when the filter also tests something an address cannot answer,
+  // such as the subject, so it may or may not match
+  certain: boolean;
+  reasons: string[];
+  // Whether the filter ends the script when it matches
+  stops: boolean;
+}
+
+export interface LookupResult {
+  matches: LookupMatch[];
+  // Where mail ends up from the filters that certainly match; "" is the inbox
+  folder: string;
+  labels: string[];
+}
+
+// Three-valued: null when the answer depends on more than the addresses
+type Outcome = boolean | null;
+
+// Evaluate a condition tree against one sender and, if given, one recipient,
+// adding the reasons of the leaves that decided it
+function evaluate(node: ConditionNode, from: string, to: string | null, reasons: string[]): Outcome {
+  switch (node.type) {
+    case 'address': {
+      const address = node.header === 'from' ? from : to;
+      const label = node.header === 'from' ? 'From' : 'To';
+      if (address === null) {
+        reasons.push('Depends on the recipient');
+        return null;
+      }
+      const entry = node.entries.find((e) => matchAddressEntry(e, address));
+      if (!entry) return false;
+      reasons.push(`${label} "${address}" matches ${ADDRESS_MODE_LABELS[entry.mode].toLowerCase()} "${entry.value}"`);
+      return true;
+    }
+    case 'subject':
+      reasons.push('Depends on the subject');
+      return null;
+    case 'header':
+      reasons.push(`Depends on the ${node.name} header`);
+      return null;
+    case 'allof': {
+      const local: string[] = [];
+      const outcomes = node.children.map((child) => evaluate(child, from, to, local));
+      if (outcomes.includes(false)) return false;
+      reasons.push(...local);
+      return outcomes.includes(null) ? null : true;
+    }
+    case 'anyof': {
+      const results = node.children.map((child) => {
+        const local: string[] = [];
+        return { outcome: evaluate(child, from, to, local), local };
+      });
+      // Only the children that certainly match explain a match
+      const matched = results.filter((r) => r.outcome === true);
+      if (matched.length > 0) {
+        reasons.push(...matched.flatMap((r) => r.local));
+        return true;
+      }
+      if (results.every((r) => r.outcome === false)) return false;
+      reasons.push(...results.flatMap((r) => r.local));
+      return null;
+    }
+    case 'not': {
+      const outcome = evaluate(node.child, from, to, []);
+      if (outcome === null) {
+        reasons.push('Depends on a "not" condition');
+        return null;
+      }
+      if (!outcome) reasons.push('Not excluded by a "not" condition');
+      return !outcome;
+    }
+  }
+}
+
+// Every enabled filter that mail from one address (and optionally to
+// another) would run, in script order, up to the first one that certainly
+// stops. Folder and labels come from the filters that certainly match.
+export function lookupAddress(filters: OrderedFilter[], from: string, to: string | null = null): LookupResult {
+  const sender = from.trim().toLowerCase();
+  const recipient = to ? to.trim().toLowerCase() : null;
+  const result: LookupResult = { matches: [], folder: '', labels: [] };
+  const deliveredAt = new Date();
+
+  const ordered = filters.filter((f) => f.enabled).sort((a, b) => a.priority - b.priority);
+  for (const [index, filter] of ordered.entries()) {
+    const reasons: string[] = [];
+    const outcome = filter.conditions ? evaluate(filter.conditions, sender, recipient, reasons) : true;
+    if (outcome === false) continue;
+    if (reasons.length === 0) {
+      reasons.push(filter.conditions ? 'Conditions match every message' : 'Filter has no conditions and matches every message');
+    }
+
+    const dateFormats = [...(filter.addYearLabel ? ['YYYY'] : []), ...(filter.dateLabel ? [filter.dateLabel] : [])];
+    const labels = [...filter.labels];
+    for (const label of dateFormats.map((format) => formatDateLabel(format, deliveredAt))) {
+      if (!labels.includes(label)) labels.push(label);
+    }
+    const stops = (Boolean(filter.targetFolder) || labels.length > 0) && filter.stopProcessing;
+    const certain = outcome === true;
+    result.matches.push({ id: filter.id, name: filter.name, position: index + 1, certain, reasons, stops });
+    if (!certain) continue;
+
+    for (const label of labels) {
+      if (!result.labels.includes(label)) result.labels.push(label);
+    }
+    if (filter.targetFolder) {
+      result.folder = filter.targetFolder;
+    }
+    if (stops) break;
+  }
+  return result;
+}
@@ -0,0 +1,154 @@
+import { AddressEntry, AddressMatchMode } from './types';
+
+// Address entries compared the way generateSieveScript expresses each match
+// mode. Addresses are expected in lower case.
+
+export const ADDRESS_MODE_LABELS: Record<AddressMatchMode, string> = {
+  exact: 'Exact address',
+  domain: 'Exact domain',
+  subdomains: 'Domain + subdomains',
+  localpart: 'Local part',
+  wildcard: 'Wildcard',
+  'domain-contains': 'Domain contains',
+};
+
+function getDomain(address: string): string {
+  return address.slice(address.lastIndexOf('@') + 1);
+}
+
+// Sieve :matches wildcards: * is any sequence, ? is one character, a backslash escapes
+export function wildcardToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (ch === '*') {
+      source += '.*';
+    } else if (ch === '?') {
+      source += '.';
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'is');
+}
+
+export function matchAddressEntry(entry: AddressEntry, address: string): boolean {
+  const value = entry.value.toLowerCase();
+  const domain = getDomain(address);
+  switch (entry.mode) {
+    case 'exact':
+      return address === value;
+    case 'domain':
+      return domain === value;
+    case 'subdomains':
+      return domain === value || domain.endsWith(`.${value}`);
+    case 'localpart':
+      return address.slice(0, address.lastIndexOf('@')) === value;
+    case 'wildcard':
+      return wildcardToRegExp(entry.value).test(address);
+    case 'domain-contains':
+      return domain.includes(value);
+  }
+}
+
+// Whether every address the inner entry matches is also matched by the outer one
+export function addressEntryCovers(outer: AddressEntry, inner: AddressEntry): boolean {
+  const outerValue = outer.value.toLowerCase();
+  const innerValue = inner.value.toLowerCase();
+  if (outer.mode === inner.mode && outerValue === innerValue) return true;
+  switch (inner.mode) {
+    case 'exact':
+      return matchAddressEntry(outer, innerValue);
+    case 'domain':
+      return (
+        (outer.mode === 'subdomains' && (innerValue === outerValue || innerValue.endsWith(`.${outerValue}`))) ||
+        (outer.mode === 'domain-contains' && innerValue.includes(outerValue))
+      );
+    case 'subdomains':
+      return (
+        (outer.mode === 'subdomains' && innerValue.endsWith(`.${outerValue}`)) ||
+        (outer.mode === 'domain-contains' && innerValue.includes(outerValue))
+      );
+    case 'domain-contains':
+      return outer.mode === 'domain-contains' && innerValue.includes(outerValue);
+    case 'localpart':
+    case 'wildcard':
+      return false;
+  }
+}
+
+// The parts of a wildcard pattern before and after its last "@", or null
+// when the pattern has no "@" and could match either side
+function splitPattern(pattern: string): [localpart: string, domain: string] | null {
+  const at = pattern.lastIndexOf('@');
+  return at === -1 ? null : [pattern.slice(0, at), pattern.slice(at + 1)];
+}
+
+// Whether two wildcard patterns can match the same address, judged part by
+// part by matching each pattern against the other's text
+function patternsOverlap(a: string, b: string): boolean {
+  const aParts = splitPattern(a);
+  const bParts = splitPattern(b);
+  if (!aParts || !bParts) return true;
+  return [0, 1].every(
+    (i) => wildcardToRegExp(aParts[i]).test(bParts[i]) || wildcardToRegExp(bParts[i]).test(aParts[i])
+  );
+}
+
+const DOMAIN_MODE_ORDER = ['domain', 'subdomains', 'domain-contains'];
+
+// Whether two domain entries can match the same domain
+function domainEntriesOverlap(a: AddressEntry, b: AddressEntry): boolean {
+  const [first, second] =
+    DOMAIN_MODE_ORDER.indexOf(a.mode) <= DOMAIN_MODE_ORDER.indexOf(b.mode) ? [a, b] : [b, a];
+  const firstValue = first.value.toLowerCase();
+  const secondValue = second.value.toLowerCase();
+  if (first.mode === 'domain') {
+    return matchAddressEntry(second, `@${firstValue}`);
+  }
+  if (first.mode === 'subdomains' && second.mode === 'subdomains') {
+    return firstValue.endsWith(`.${secondValue}`) || secondValue.endsWith(`.${firstValue}`);
+  }
+  if (first.mode === 'subdomains') {
+    // Only counted when every address of the domain has the text in it
+    return firstValue.includes(secondValue);
+  }
+  // Two "domain contains" entries: counted when one text contains the other,
+  // not for made-up domains that happen to contain both
+  return firstValue.includes(secondValue) || secondValue.includes(firstValue);
+}
+
+// Whether some real address can match both entries. Wildcards are compared
+// part by part, and a pattern without "@" is assumed to overlap.
+export function addressEntriesOverlap(a: AddressEntry, b: AddressEntry): boolean {
+  if (a.mode === b.mode && a.value.toLowerCase() === b.value.toLowerCase()) return true;
+  if (a.mode === 'exact') return matchAddressEntry(b, a.value.toLowerCase());
+  if (b.mode === 'exact') return matchAddressEntry(a, b.value.toLowerCase());
+  if (a.mode === 'wildcard' || b.mode === 'wildcard') {
+    const [pattern, other] = a.mode === 'wildcard' ? [a, b] : [b, a];
+    if (other.mode === 'wildcard') {
+      return patternsOverlap(pattern.value.toLowerCase(), other.value.toLowerCase());
+    }
+    const parts = splitPattern(pattern.value);
+    if (!parts) return true;
+    const [localpart, domain] = parts.map(wildcardToRegExp);
+    const otherValue = other.value.toLowerCase();
+    switch (other.mode) {
+      case 'localpart':
+        return localpart.test(otherValue);
+      case 'domain':
+        return domain.test(otherValue);
+      case 'subdomains':
+        return domain.test(otherValue) || domain.test(`mail.${otherValue}`);
+      case 'domain-contains':
+        return true;
+    }
+  }
+  if (a.mode === 'localpart' || b.mode === 'localpart') {
+    // A local part goes with any domain, but not with a different local part
+    return a.mode !== b.mode;
+  }
+  return domainEntriesOverlap(a, b);
+}
@@ -0,0 +1,88 @@
+// Date labels are formats such as "YYYY-MM" that are filled in when a message
+// is delivered, using the Sieve date and variables extensions. Each token maps
+// to the variable the generated script sets from currentdate.
+export const DATE_LABEL_TOKENS = {
+  YYYY: 'year',
+  MM: 'month',
+  DD: 'day',
+  Q: 'quarter',
+} as const;
+
+export type DateLabelToken = keyof typeof DATE_LABEL_TOKENS;
+
+export type DateLabelPart = { type: 'text'; text: string } | { type: 'token'; token: DateLabelToken };
+
+// Formats are read a word at a time, a word being a run of letters and digits.
+// A word made only of tokens, such as "YYYY" or "YYYYMM", is filled in; any
+// other word, such as "FAQ" or "Q1", is kept as written.
+export function parseDateLabel(format: string): DateLabelPart[] {
+  const parts: DateLabelPart[] = [];
+  const addText = (text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === 'text') last.text += text;
+    else parts.push({ type: 'text', text });
+  };
+  for (const word of format.split(/([A-Za-z0-9]+)/)) {
+    if (word === '') continue;
+    if (/^(YYYY|MM|DD|Q)+$/.test(word)) {
+      for (const token of word.match(/YYYY|MM|DD|Q/g) as DateLabelToken[]) {
+        parts.push({ type: 'token', token });
+      }
+    } else {
+      addText(word);
+    }
+  }
+  return parts;
+}
+
+export function getDateLabelTokens(format: string): DateLabelToken[] {
+  return parseDateLabel(format).flatMap((part) => (part.type === 'token' ? [part.token] : []));
+}
+
+// Statements that set each variable from the delivery date
+export const DATE_VARIABLE_ACTIONS: Record<DateLabelToken, string[]> = {
+  YYYY: ['if currentdate :matches "year" "*" { set "year" "${1}"; }'],
+  MM: ['if currentdate :matches "month" "*" { set "month" "${1}"; }'],
+  DD: ['if currentdate :matches "day" "*" { set "day" "${1}"; }'],
+  Q: [
+    'if currentdate :is "month" ["01", "02", "03"] { set "quarter" "Q1"; }',
+    'if currentdate :is "month" ["04", "05", "06"] { set "quarter" "Q2"; }',
+    'if currentdate :is "month" ["07", "08", "09"] { set "quarter" "Q3"; }',
+    'if currentdate :is "month" ["10", "11", "12"] { set "quarter" "Q4"; }',
+  ],
+};
+
+// "YYYY-MM" becomes "${year}-${month}"
+export function toSieveDateLabel(format: string): string {
+  return parseDateLabel(format)
+    .map((part) => (part.type === 'token' ? '${' + DATE_LABEL_TOKENS[part.token] + '}' : part.text))
+    .join('');
+}
+
+// The label a message delivered on the given date would get
+export function formatDateLabel(format: string, date: Date): string {
+  const values: Record<DateLabelToken, string> = {
+    YYYY: date.getFullYear().toString(),
+    MM: String(date.getMonth() + 1).padStart(2, '0'),
+    DD: String(date.getDate()).padStart(2, '0'),
+    Q: `Q${Math.floor(date.getMonth() / 3) + 1}`,
+  };
+  return parseDateLabel(format)
+    .map((part) => (part.type === 'token' ? values[part.token] : part.text))
+    .join('');
+}
+
+// "${year}-${month}" becomes "YYYY-MM"; null when other variables are used,
+// or when the label's text or variables would not read back the same way
+export function fromSieveDateLabel(label: string): string | null {
+  const tokens = Object.fromEntries(
+    Object.entries(DATE_LABEL_TOKENS).map(([token, variable]) => [variable, token])
+  ) as Record<string, DateLabelToken>;
+  let unknown = false;
+  const format = label.replace(/\$\{([^}]*)\}/g, (_, variable: string) => {
+    const token = tokens[variable.toLowerCase()];
+    if (!token) unknown = true;
+    return token ?? '';
+  });
+  return unknown || toSieveDateLabel(format) !== label ? null : format;
+}
@@ -0,0 +1,183 @@
+import { FilterSettings, ConditionNode, AddressCondition, AddressEntry } from './types';
+import { addressEntriesOverlap } from './addressMatching';
+
+// Filters as both packages store them: settings plus an id and a priority
+type OrderedFilter = FilterSettings & { id: string; priority: number };
+
+export interface OverlapFilter {
+  id: string;
+  name: string;
+  // 1-based place among the enabled filters, in the order the script runs them
+  position: number;
+}
+
+// Two entries, one from each filter, that the same address can match
+export interface AddressOverlap {
+  header: AddressCondition['header'];
+  first: AddressEntry;
+  second: AddressEntry;
+}
+
+export interface FilterOverlap {
+  // The filter the script runs first
+  first: OverlapFilter;
+  second: OverlapFilter;
+  addresses: AddressOverlap[];
+  // Each conflicting action, with which of the two filters wins
+  conflicts: string[];
+}
+
+// Keeps deeply nested any of / all of trees from multiplying without bound
+const MAX_ALTERNATIVES = 64;
+
+// The ways a tree can match, each a list of address tests that must all
+// match. Subject, header and negated tests are assumed to match, so two
+// filters are compared on their From and To tests alone.
+function getAddressAlternatives(node: ConditionNode | null): AddressCondition[][] {
+  if (!node) return [[]];
+  switch (node.type) {
+    case 'address':
+      // No entries is written as "false" and never matches
+      return node.entries.length > 0 ? [[node]] : [];
+    case 'subject':
+    case 'header':
+    case 'not':
+      return [[]];
+    case 'anyof':
+      return node.children.flatMap(getAddressAlternatives).slice(0, MAX_ALTERNATIVES);
+    case 'allof':
+      return node.children.reduce<AddressCondition[][]>(
+        (alternatives, child) =>
+          alternatives
+            .flatMap((tests) => getAddressAlternatives(child).map((more) => [...tests, ...more]))
+            .slice(0, MAX_ALTERNATIVES),
+        [[]]
+      );
+  }
+}
+
+function findOverlappingEntries(a: AddressCondition, b: AddressCondition): AddressOverlap | null {
+  for (const first of a.entries) {
+    const second = b.entries.find((entry) => addressEntriesOverlap(first, entry));
+    if (second) return { header: a.header, first, second };
+  }
+  return null;
+}
+
+// Where two alternatives can match the same message: every From test of one
+// must be able to match together with every From test of the other, and the
+// same for To. Null when they cannot, or when they share no header to compare.
+function compareAlternatives(a: AddressCondition[], b: AddressCondition[]): AddressOverlap[] | null {
+  const overlaps: AddressOverlap[] = [];
+  for (const header of ['from', 'to'] as const) {
+    const aTests = a.filter((c) => c.header === header);
+    const bTests = b.filter((c) => c.header === header);
+    for (const aTest of aTests) {
+      for (const bTest of bTests) {
+        const overlap = findOverlappingEntries(aTest, bTest);
+        if (!overlap) return null;
+        if (!overlaps.some((o) => o.header === header)) overlaps.push(overlap);
+      }
+    }
+  }
+  return overlaps.length > 0 ? overlaps : null;
+}
+
+function findAddressOverlap(first: OrderedFilter, second: OrderedFilter): AddressOverlap[] | null {
+  const secondAlternatives = getAddressAlternatives(second.conditions);
+  for (const a of getAddressAlternatives(first.conditions)) {
+    for (const b of secondAlternatives) {
+      const overlap = compareAlternatives(a, b);
+      if (overlap) return overlap;
+    }
+  }
+  return null;
+}
+
+function quoteNames(names: string[]): string {
+  return names.map((name) => `"${name}"`).join(', ');
+}
+
+// The actions of a filter that another filter does not already take
+function describeMissingActions(filter: OrderedFilter, other: OrderedFilter): string[] {
+  const actions: string[] = [];
+  if (filter.targetFolder && filter.targetFolder !== other.targetFolder) {
+    actions.push(`folder "${filter.targetFolder}"`);
+  }
+  const labels = filter.labels.filter((label) => !other.labels.includes(label));
+  if (labels.length > 0) {
+    actions.push(`${labels.length === 1 ? 'label' : 'labels'} ${quoteNames(labels)}`);
+  }
+  if (filter.addYearLabel && !other.addYearLabel) {
+    actions.push('year label');
+  }
+  if (filter.dateLabel && filter.dateLabel !== other.dateLabel) {
+    actions.push(`date label "${filter.dateLabel}"`);
+  }
+  const flags = filter.flags.filter((flag) => !other.flags.includes(flag));
+  if (flags.length > 0) {
+    actions.push(`${flags.length === 1 ? 'flag' : 'flags'} ${quoteNames(flags)}`);
+  }
+  if (filter.expirationDays !== null && filter.expirationDays !== other.expirationDays) {
+    actions.push(`expiration after ${filter.expirationDays} days`);
+  }
+  if (filter.vacation && !other.vacation) {
+    actions.push('auto-reply');
+  }
+  return actions;
+}
+
+// Whether a filter ends the script, the same rule generateSieveScript uses to write "stop"
+function stopsProcessing(filter: OrderedFilter): boolean {
+  const files = Boolean(filter.targetFolder) || filter.labels.length > 0 || filter.addYearLabel || Boolean(filter.dateLabel);
+  return files && filter.stopProcessing;
+}
+
+// Explain what goes wrong for mail that both filters match
+function describeConflicts(first: OrderedFilter, second: OrderedFilter): string[] {
+  if (stopsProcessing(first)) {
+    const lost = describeMissingActions(second, first);
+    if (lost.length === 0) return [];
+    const list = lost.length === 1 ? lost[0] : `${lost.slice(0, -1).join(', ')} and ${lost[lost.length - 1]}`;
+    return [
+      `"${first.name}" runs first and stops, so "${second.name}" never runs for mail both match: its ${list} ${lost.length === 1 ? 'is' : 'are'} not applied`,
+    ];
+  }
+  const conflicts: string[] = [];
+  if (first.targetFolder && second.targetFolder && first.targetFolder !== second.targetFolder) {
+    conflicts.push(
+      `Mail ends up in "${second.targetFolder}" from "${second.name}", which runs later, not in "${first.targetFolder}"`
+    );
+  }
+  if (first.expirationDays !== null && second.expirationDays !== null && first.expirationDays !== second.expirationDays) {
+    conflicts.push(
+      `Mail expires after ${second.expirationDays} days from "${second.name}", which runs later, not ${first.expirationDays} days`
+    );
+  }
+  if (first.vacation && second.vacation) {
+    conflicts.push(`Only the auto-reply of "${first.name}", which runs first, is sent`);
+  }
+  return conflicts;
+}
+
+// Find pairs of enabled filters whose From or To tests can match the same
+// mail and whose actions then conflict, in script order
+export function findFilterOverlaps(filters: OrderedFilter[]): FilterOverlap[] {
+  const ordered = filters.filter((f) => f.enabled).sort((a, b) => a.priority - b.priority);
+  const overlaps: FilterOverlap[] = [];
+  ordered.forEach((first, index) => {
+    ordered.slice(index + 1).forEach((second, offset) => {
+      const conflicts = describeConflicts(first, second);
+      if (conflicts.length === 0) return;
+      const addresses = findAddressOverlap(first, second);
+      if (!addresses) return;
+      overlaps.push({
+        first: { id: first.id, name: first.name, position: index + 1 },
+        second: { id: second.id, name: second.name, position: index + offset + 2 },
+        addresses,
+        conflicts,
+      });
+    });
+  });
+  return overlaps;
+}
@@ -0,0 +1,268 @@
+import { FilterSettings, ConditionNode, AddressCondition, AddressMatchMode, VacationAction } from './types';
+import { DATE_VARIABLE_ACTIONS, getDateLabelTokens, toSieveDateLabel } from './dateLabels';
+
+// RFC 5228 quoted string: only backslash and double quote need escaping
+function quoteString(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+function quoteList(values: string[]): string {
+  return values.length === 1 ? quoteString(values[0]) : `[${values.map(quoteString).join(', ')}]`;
+}
+
+// A comment runs to the end of the line, so names cannot span lines
+function commentText(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+function buildVacationAction(vacation: VacationAction): string {
+  const args: string[] = [];
+  if (vacation.days !== null) {
+    args.push(`:days ${vacation.days}`);
+  }
+  if (vacation.subject) {
+    args.push(`:subject ${quoteString(vacation.subject)}`);
+  }
+  if (vacation.addresses.length > 0) {
+    args.push(`:addresses ${quoteList(vacation.addresses)}`);
+  }
+  args.push(quoteString(vacation.body));
+  return `vacation ${args.join(' ')};`;
+}
+
+// One test per match mode in use. Domain contains keeps its historical
+// form of one test per domain.
+function buildAddressTests(condition: AddressCondition): string[] {
+  const header = condition.header;
+  const valuesFor = (mode: AddressMatchMode) =>
+    condition.entries.filter((entry) => entry.mode === mode).map((entry) => entry.value);
+  const tests: string[] = [];
+
+  const addresses = valuesFor('exact');
+  if (addresses.length > 0) {
+    tests.push(`address :is "${header}" ${quoteList(addresses)}`);
+  }
+
+  for (const domain of valuesFor('domain-contains')) {
+    tests.push(`address :domain :contains "${header}" ${quoteString(domain)}`);
+  }
+
+  // Domain plus subdomains matches the domain itself and anything under it
+  const subdomains = valuesFor('subdomains');
+  const domains = [...valuesFor('domain'), ...subdomains];
+  if (domains.length > 0) {
+    tests.push(`address :domain :is "${header}" ${quoteList(domains)}`);
+  }
+  if (subdomains.length > 0) {
+    tests.push(`address :domain :matches "${header}" ${quoteList(subdomains.map((d) => `*.${d}`))}`);
+  }
+
+  const localparts = valuesFor('localpart');
+  if (localparts.length > 0) {
+    tests.push(`address :localpart :is "${header}" ${quoteList(localparts)}`);
+  }
+
+  const patterns = valuesFor('wildcard');
+  if (patterns.length > 0) {
+    tests.push(`address :matches "${header}" ${quoteList(patterns)}`);
+  }
+
+  return tests;
+}
+
+// Render a condition tree node as a single Sieve test
+function buildTest(node: ConditionNode): string {
+  switch (node.type) {
+    case 'address': {
+      const tests = buildAddressTests(node);
+      if (tests.length === 0) return 'false';
+      return tests.length === 1 ? tests[0] : `anyof (${tests.join(', ')})`;
+    }
+    case 'subject':
+    case 'header': {
+      const name = node.type === 'subject' ? 'subject' : node.name;
+      return `header :${node.matchType} ${quoteString(name)} ${quoteList(node.values)}`;
+    }
+    case 'allof':
+    case 'anyof': {
+      if (node.children.length === 0) return node.type === 'allof' ? 'true' : 'false';
+      if (node.children.length === 1) return buildTest(node.children[0]);
+      return `${node.type} (${node.children.map(buildTest).join(', ')})`;
+    }
+    case 'not':
+      return `not ${buildTest(node.child)}`;
+  }
+}
+
+interface SieveRule {
+  requires: string[];
+  conditions: string[];
+  actions: string[];
+}
+
+function buildRule(filter: FilterSettings): SieveRule {
+  const requires: string[] = [];
+  const conditions: string[] = [];
+  const actions: string[] = [];
+
+  // Compute effective labels. Year and date labels are variables the script
+  // fills in from the delivery date, so deployed scripts never go stale.
+  const dateFormats = [...(filter.addYearLabel ? ['YYYY'] : []), ...(filter.dateLabel ? [filter.dateLabel] : [])];
+  const dateTokens = Array.from(new Set(dateFormats.flatMap(getDateLabelTokens)));
+  const effectiveLabels = [...filter.labels];
+  for (const label of dateFormats.map(toSieveDateLabel)) {
+    if (!effectiveLabels.includes(label)) {
+      effectiveLabels.push(label);
+    }
+  }
+
+  // Determine required extensions
+  if (filter.targetFolder || effectiveLabels.length > 0) {
+    requires.push('fileinto');
+  }
+  // imap4flags needed for flags or to check Trash status
+  requires.push('imap4flags');
+  if (filter.expirationDays !== null) {
+    requires.push('vnd.proton.expire');
+  }
+  if (dateTokens.length > 0) {
+    requires.push('date', 'variables');
+  }
+  if (filter.vacation) {
+    requires.push('vacation');
+  }
+
+  // Build conditions
+  // Skip messages already in Trash
+  conditions.push('not hasflag "\\\\Deleted"');
+  if (filter.conditions) {
+    // A top-level allof merges into the script's own allof
+    const tests = filter.conditions.type === 'allof' ? filter.conditions.children : [filter.conditions];
+    conditions.push(...tests.map(buildTest));
+  }
+
+  // Build actions (order matters: expire, addflag, vacation, date variables, labels, folder, stop)
+  if (filter.expirationDays !== null) {
+    actions.push(`expire "day" ${quoteString(String(filter.expirationDays))};`);
+  }
+
+  if (filter.flags.length > 0) {
+    const flags = filter.flags.map(quoteString);
+    actions.push(`addflag ${flags.length === 1 ? flags[0] : `[${flags.join(', ')}]`};`);
+  }
+
+  if (filter.vacation) {
+    actions.push(buildVacationAction(filter.vacation));
+  }
+
+  for (const token of dateTokens) {
+    actions.push(...DATE_VARIABLE_ACTIONS[token]);
+  }
+
+  // Labels are applied using fileinto with just the label name
+  for (const label of effectiveLabels) {
+    actions.push(`fileinto ${quoteString(label)};`);
+  }
+
+  // Folder uses fileinto with the full path
+  if (filter.targetFolder) {
+    actions.push(`fileinto ${quoteString(filter.targetFolder)};`);
+  }
+
+  // End with stop if we have any fileinto actions, unless later filters should
+  // still run; without fileinto, keep
+  if (filter.targetFolder || effectiveLabels.length > 0) {
+    if (filter.stopProcessing) {
+      actions.push('stop;');
+    }
+  } else {
+    actions.push('keep;');
+  }
+
+  return { requires, conditions, actions };
+}
+
+export interface SieveScriptOptions {
+  // Pin the "# Generated:" timestamp so the same filters give the same script
+  generatedAt?: Date;
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toLocaleString('en-US', {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatRequire(requires: string[]): string[] {
+  if (requires.length === 0) return [];
+  const requireList = requires.map((r) => `"${r}"`).join(', ');
+  return [`require [${requireList}];`, ''];
+}
+
+function formatIfBlock(rule: SieveRule): string[] {
+  const lines: string[] = [];
+  if (rule.conditions.length > 0) {
+    const conditionStr = rule.conditions.join(',\n       ');
+    lines.push(`if allof (${conditionStr}) {`);
+  } else {
+    lines.push('if true {');
+  }
+  for (const action of rule.actions) {
+    lines.push(`    ${action}`);
+  }
+  lines.push('}');
+  lines.push('');
+  return lines;
+}
+
+export function generateSieveScript(filter: FilterSettings, options: SieveScriptOptions = {}): string {
+  const rule = buildRule(filter);
+  return [
+    `# Filter: ${commentText(filter.name)}`,
+    `# Generated: ${formatTimestamp(options.generatedAt ?? new Date())}`,
+    '',
+    ...formatRequire(rule.requires),
+    ...formatIfBlock(rule),
+  ].join('\n');
+}
+
+// The script without its "# Generated:" line, so two scripts can be compared
+// by the rules they contain rather than when they were made
+export function getScriptBody(script: string): string {
+  return script
+    .split('\n')
+    .filter((line) => !line.startsWith('# Generated:'))
+    .join('\n');
+}
+
+// Merge the enabled filters into one script: a single deduplicated require,
+// then one if block per filter in the order given
+export function generateCombinedSieveScript(
+  allFilters: FilterSettings[],
+  title: string,
+  options: SieveScriptOptions = {}
+): string {
+  const filters = allFilters.filter((f) => f.enabled);
+  const rules = filters.map(buildRule);
+  const requires = Array.from(new Set(rules.flatMap((r) => r.requires)));
+
+  const lines: string[] = [
+    `# Filters: ${commentText(title)}`,
+    `# Generated: ${formatTimestamp(options.generatedAt ?? new Date())}`,
+    `# Count: ${filters.length}`,
+    '',
+    ...formatRequire(requires),
+  ];
+
+  filters.forEach((filter, index) => {
+    lines.push(`# Filter: ${commentText(filter.name)}`);
+    lines.push(...formatIfBlock(rules[index]));
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,292 @@
+// Tokenizer and parser for the RFC 5228 grammar, shared by the importer and
+// the validator that checks generated scripts
+
+export class SieveSyntaxError extends Error {
+  constructor(public readonly reason: string, public readonly line: number) {
+    super(`Line ${line}: ${reason}`);
+    this.name = 'SieveSyntaxError';
+  }
+}
+
+type TokenType = 'identifier' | 'tag' | 'string' | 'number' | 'punct';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+}
+
+export interface SieveComment {
+  text: string;
+  line: number;
+}
+
+export type SieveArgument =
+  | { type: 'tag'; value: string }
+  | { type: 'strings'; values: string[] }
+  | { type: 'number'; value: number };
+
+export interface SieveTest {
+  name: string;
+  args: SieveArgument[];
+  tests: SieveTest[];
+  line: number;
+}
+
+export interface SieveCommand {
+  name: string;
+  args: SieveArgument[];
+  tests: SieveTest[];
+  block: SieveCommand[] | null;
+  line: number;
+}
+
+// Split a script into tokens (RFC 5228 section 8.1), collecting comments separately
+function tokenize(script: string): { tokens: Token[]; comments: SieveComment[] } {
+  const tokens: Token[] = [];
+  const comments: SieveComment[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < script.length) {
+    const ch = script[i];
+
+    if (ch === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '#') {
+      const end = script.indexOf('\n', i);
+      const stop = end === -1 ? script.length : end;
+      comments.push({ text: script.slice(i + 1, stop).trim(), line });
+      i = stop;
+    } else if (script.startsWith('/*', i)) {
+      const end = script.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new SieveSyntaxError('Unterminated comment', line);
+      }
+      const body = script.slice(i + 2, end);
+      comments.push({ text: body.trim(), line });
+      line += body.split('\n').length - 1;
+      i = end + 2;
+    } else if (ch === '"') {
+      const startLine = line;
+      let value = '';
+      i++;
+      while (i < script.length && script[i] !== '"') {
+        if (script[i] === '\\' && i + 1 < script.length) {
+          i++;
+        }
+        if (script[i] === '\n') line++;
+        value += script[i];
+        i++;
+      }
+      if (i >= script.length) {
+        throw new SieveSyntaxError('Unterminated string', startLine);
+      }
+      i++;
+      tokens.push({ type: 'string', value, line: startLine });
+    } else if (script.startsWith('text:', i)) {
+      // Multi-line string: runs until a line containing only "."
+      const startLine = line;
+      const bodyStart = script.indexOf('\n', i);
+      if (bodyStart === -1) {
+        throw new SieveSyntaxError('Unterminated multi-line string', startLine);
+      }
+      const rest = script.slice(bodyStart + 1);
+      const match = /^\.\r?$/m.exec(rest);
+      if (!match) {
+        throw new SieveSyntaxError('Unterminated multi-line string', startLine);
+      }
+      const body = rest.slice(0, match.index);
+      const value = body.replace(/^\.\./gm, '.').replace(/\r?\n$/, '');
+      tokens.push({ type: 'string', value, line: startLine });
+      line += body.split('\n').length;
+      i = bodyStart + 1 + match.index + match[0].length;
+    } else if (ch === ':') {
+      const match = /^:[A-Za-z_][A-Za-z0-9_]*/.exec(script.slice(i));
+      if (!match) {
+        throw new SieveSyntaxError('Invalid tag', line);
+      }
+      tokens.push({ type: 'tag', value: match[0].toLowerCase(), line });
+      i += match[0].length;
+    } else if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+[KMG]?/i.exec(script.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], line });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(script.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0].toLowerCase(), line });
+      i += match[0].length;
+    } else if ('[](){};,'.includes(ch)) {
+      tokens.push({ type: 'punct', value: ch, line });
+      i++;
+    } else {
+      throw new SieveSyntaxError(`Unexpected character "${ch}"`, line);
+    }
+  }
+
+  return { tokens, comments };
+}
+
+function parseNumber(value: string): number {
+  const multipliers: Record<string, number> = { K: 1024, M: 1024 ** 2, G: 1024 ** 3 };
+  const suffix = value.slice(-1).toUpperCase();
+  if (multipliers[suffix]) {
+    return parseInt(value.slice(0, -1), 10) * multipliers[suffix];
+  }
+  return parseInt(value, 10);
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseScript(): SieveCommand[] {
+    const commands: SieveCommand[] = [];
+    while (!this.atEnd()) {
+      commands.push(this.parseCommand());
+    }
+    return commands;
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private lastLine(): number {
+    return this.tokens.length > 0 ? this.tokens[this.tokens.length - 1].line : 1;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token !== undefined && token.type === 'punct' && token.value === value;
+  }
+
+  private expectPunct(value: string): Token {
+    const token = this.peek();
+    if (!token || token.type !== 'punct' || token.value !== value) {
+      throw new SieveSyntaxError(
+        `Expected "${value}" but found ${token ? `"${token.value}"` : 'end of script'}`,
+        token?.line ?? this.lastLine()
+      );
+    }
+    this.pos++;
+    return token;
+  }
+
+  private expectIdentifier(): Token {
+    const token = this.peek();
+    if (!token || token.type !== 'identifier') {
+      throw new SieveSyntaxError(
+        `Expected a command or test name but found ${token ? `"${token.value}"` : 'end of script'}`,
+        token?.line ?? this.lastLine()
+      );
+    }
+    this.pos++;
+    return token;
+  }
+
+  private parseCommand(): SieveCommand {
+    const nameToken = this.expectIdentifier();
+    const { args, tests } = this.parseArguments();
+    let block: SieveCommand[] | null = null;
+
+    if (this.isPunct('{')) {
+      this.pos++;
+      block = [];
+      while (!this.isPunct('}')) {
+        if (this.atEnd()) {
+          throw new SieveSyntaxError('Missing closing "}"', nameToken.line);
+        }
+        block.push(this.parseCommand());
+      }
+      this.pos++;
+    } else {
+      this.expectPunct(';');
+    }
+
+    return { name: nameToken.value, args, tests, block, line: nameToken.line };
+  }
+
+  private parseArguments(): { args: SieveArgument[]; tests: SieveTest[] } {
+    const args: SieveArgument[] = [];
+    const tests: SieveTest[] = [];
+
+    for (;;) {
+      const token = this.peek();
+      if (!token) break;
+      if (token.type === 'tag') {
+        args.push({ type: 'tag', value: token.value });
+        this.pos++;
+      } else if (token.type === 'number') {
+        args.push({ type: 'number', value: parseNumber(token.value) });
+        this.pos++;
+      } else if (token.type === 'string') {
+        args.push({ type: 'strings', values: [token.value] });
+        this.pos++;
+      } else if (token.type === 'punct' && token.value === '[') {
+        args.push({ type: 'strings', values: this.parseStringList() });
+      } else {
+        break;
+      }
+    }
+
+    const token = this.peek();
+    if (token?.type === 'identifier') {
+      tests.push(this.parseTest());
+    } else if (token?.type === 'punct' && token.value === '(') {
+      tests.push(...this.parseTestList());
+    }
+
+    return { args, tests };
+  }
+
+  private parseStringList(): string[] {
+    this.expectPunct('[');
+    const values: string[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type !== 'string') {
+        throw new SieveSyntaxError('Expected a string in string list', token?.line ?? this.lastLine());
+      }
+      values.push(token.value);
+      this.pos++;
+      if (this.isPunct(',')) {
+        this.pos++;
+        continue;
+      }
+      this.expectPunct(']');
+      return values;
+    }
+  }
+
+  private parseTest(): SieveTest {
+    const nameToken = this.expectIdentifier();
+    const { args, tests } = this.parseArguments();
+    return { name: nameToken.value, args, tests, line: nameToken.line };
+  }
+
+  private parseTestList(): SieveTest[] {
+    this.expectPunct('(');
+    const tests: SieveTest[] = [this.parseTest()];
+    while (this.isPunct(',')) {
+      this.pos++;
+      tests.push(this.parseTest());
+    }
+    this.expectPunct(')');
+    return tests;
+  }
+}
+
+export function parseSieve(script: string): { commands: SieveCommand[]; comments: SieveComment[] } {
+  const { tokens, comments } = tokenize(script);
+  const commands = new Parser(tokens).parseScript();
+  return { commands, comments };
+}
@@ -0,0 +1,246 @@
+import { parseSieve, SieveArgument, SieveCommand, SieveSyntaxError, SieveTest } from './sieveSyntax';
+
+// A problem that would make a server reject the script. command is the
+// command or test it was found in (comments have none) and value the string
+// at fault, when there is one.
+export interface SieveValidationIssue {
+  line: number;
+  message: string;
+  command?: string;
+  value?: string;
+}
+
+interface SieveSpec {
+  // Extension that must be listed in require; none for the base language
+  capability?: string;
+  // Number of string, string list and number arguments, not counting tags
+  minArgs: number;
+  maxArgs: number;
+  // Tags followed by their own argument, such as :days 7
+  tagArgs?: string[];
+}
+
+// The commands the generator and the importer deal with
+const COMMANDS: Record<string, SieveSpec> = {
+  keep: { minArgs: 0, maxArgs: 0 },
+  discard: { minArgs: 0, maxArgs: 0 },
+  stop: { minArgs: 0, maxArgs: 0 },
+  redirect: { minArgs: 1, maxArgs: 1 },
+  fileinto: { capability: 'fileinto', minArgs: 1, maxArgs: 1 },
+  addflag: { capability: 'imap4flags', minArgs: 1, maxArgs: 2 },
+  setflag: { capability: 'imap4flags', minArgs: 1, maxArgs: 2 },
+  removeflag: { capability: 'imap4flags', minArgs: 1, maxArgs: 2 },
+  expire: { capability: 'vnd.proton.expire', minArgs: 2, maxArgs: 2 },
+  vacation: {
+    capability: 'vacation',
+    minArgs: 1,
+    maxArgs: 1,
+    tagArgs: [':days', ':subject', ':from', ':addresses', ':handle'],
+  },
+  set: { capability: 'variables', minArgs: 2, maxArgs: 2 },
+};
+
+const TESTS: Record<string, SieveSpec> = {
+  true: { minArgs: 0, maxArgs: 0 },
+  false: { minArgs: 0, maxArgs: 0 },
+  address: { minArgs: 2, maxArgs: 2, tagArgs: [':comparator'] },
+  header: { minArgs: 2, maxArgs: 2, tagArgs: [':comparator'] },
+  exists: { minArgs: 1, maxArgs: 1 },
+  size: { minArgs: 1, maxArgs: 1 },
+  hasflag: { capability: 'imap4flags', minArgs: 1, maxArgs: 2 },
+  currentdate: { capability: 'date', minArgs: 2, maxArgs: 2, tagArgs: [':comparator', ':zone'] },
+};
+
+// Tests that take other tests instead of arguments
+const TEST_LISTS: Record<string, { min: number; max: number }> = {
+  not: { min: 1, max: 1 },
+  allof: { min: 1, max: Infinity },
+  anyof: { min: 1, max: Infinity },
+};
+
+// Tests whose first argument lists header names
+const HEADER_NAME_TESTS = ['address', 'header', 'exists'];
+
+// Commands whose mailbox or address argument cannot be empty
+const EMPTY_MAILBOX_COMMANDS = ['fileinto', 'redirect'];
+
+// An unpaired surrogate has no UTF-8 encoding, and scripts must be UTF-8
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+function describeBadText(text: string): string | null {
+  if (text.includes('\0')) return 'contains a NUL character';
+  if (LONE_SURROGATE.test(text)) return 'is not valid Unicode';
+  return null;
+}
+
+// Count the positional arguments, skipping the ones that belong to a tag
+function countArgs(args: SieveArgument[], tagArgs: string[] = []): number {
+  let count = 0;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.type === 'tag') {
+      if (tagArgs.includes(arg.value)) i++;
+    } else {
+      count++;
+    }
+  }
+  return count;
+}
+
+function getStrings(args: SieveArgument[]): string[][] {
+  return args.filter((a) => a.type === 'strings').map((a) => (a as { values: string[] }).values);
+}
+
+// Check a parsed script against RFC 5228 rules that the grammar alone does not
+// cover: known commands and tests, declared extensions, argument counts,
+// if/elsif/else structure and the characters strings may hold
+export function validateSieveScript(script: string): SieveValidationIssue[] {
+  let parsed;
+  try {
+    parsed = parseSieve(script);
+  } catch (error) {
+    if (error instanceof SieveSyntaxError) {
+      return [{ line: error.line, message: error.reason }];
+    }
+    throw error;
+  }
+
+  const issues: SieveValidationIssue[] = [];
+  const capabilities = new Set<string>();
+
+  for (const comment of parsed.comments) {
+    const problem = describeBadText(comment.text);
+    if (problem) {
+      issues.push({ line: comment.line, message: `Comment ${problem}` });
+    }
+  }
+
+  const checkStrings = (node: { name: string; args: SieveArgument[]; line: number }) => {
+    for (const value of getStrings(node.args).flat()) {
+      const problem = describeBadText(value);
+      if (problem) {
+        issues.push({ line: node.line, message: `String "${value}" ${problem}`, command: node.name, value });
+      }
+    }
+  };
+
+  const checkSpec = (node: { name: string; args: SieveArgument[]; line: number }, spec: SieveSpec, kind: string) => {
+    if (spec.capability && !capabilities.has(spec.capability)) {
+      issues.push({
+        line: node.line,
+        message: `The ${kind} "${node.name}" needs "${spec.capability}" in require`,
+        command: node.name,
+      });
+    }
+    const count = countArgs(node.args, spec.tagArgs);
+    if (count < spec.minArgs || count > spec.maxArgs) {
+      const expected = spec.minArgs === spec.maxArgs ? `${spec.minArgs}` : `${spec.minArgs} to ${spec.maxArgs}`;
+      issues.push({
+        line: node.line,
+        message: `The ${kind} "${node.name}" takes ${expected} arguments but has ${count}`,
+        command: node.name,
+      });
+    }
+  };
+
+  const checkTest = (test: SieveTest) => {
+    checkStrings(test);
+    const list = TEST_LISTS[test.name];
+    if (list) {
+      if (countArgs(test.args) > 0) {
+        issues.push({ line: test.line, message: `The test "${test.name}" takes no arguments`, command: test.name });
+      }
+      if (test.tests.length < list.min || test.tests.length > list.max) {
+        const expected = list.max === 1 ? 'exactly one test' : 'at least one test';
+        issues.push({ line: test.line, message: `The test "${test.name}" needs ${expected}`, command: test.name });
+      }
+      test.tests.forEach(checkTest);
+      return;
+    }
+
+    const spec = TESTS[test.name];
+    if (!spec) {
+      issues.push({ line: test.line, message: `Unknown test "${test.name}"`, command: test.name });
+      return;
+    }
+    checkSpec(test, spec, 'test');
+    if (test.tests.length > 0) {
+      issues.push({ line: test.line, message: `The test "${test.name}" cannot contain other tests`, command: test.name });
+    }
+    if (HEADER_NAME_TESTS.includes(test.name)) {
+      // RFC 5322 field names are printable ASCII without a colon
+      for (const name of getStrings(test.args)[0] ?? []) {
+        if (!/^[\x21-\x39\x3b-\x7e]+$/.test(name)) {
+          issues.push({ line: test.line, message: `Invalid header name "${name}"`, command: test.name, value: name });
+        }
+      }
+    }
+  };
+
+  const checkBlock = (commands: SieveCommand[], topLevel: boolean) => {
+    let previous: string | null = null;
+    let seenOther = false;
+
+    for (const command of commands) {
+      checkStrings(command);
+
+      if (command.name === 'require') {
+        if (!topLevel || seenOther) {
+          issues.push({ line: command.line, message: 'require must come before any other command', command: 'require' });
+        }
+        const lists = getStrings(command.args);
+        if (lists.length !== 1 || command.args.length !== 1 || command.tests.length > 0 || command.block) {
+          issues.push({ line: command.line, message: 'require takes one string list', command: 'require' });
+        }
+        lists.flat().forEach((capability) => capabilities.add(capability.toLowerCase()));
+        previous = command.name;
+        continue;
+      }
+      seenOther = true;
+
+      if (command.name === 'if' || command.name === 'elsif' || command.name === 'else') {
+        if (command.name !== 'if' && previous !== 'if' && previous !== 'elsif') {
+          issues.push({ line: command.line, message: `${command.name} must follow an if or elsif block`, command: command.name });
+        }
+        const testCount = command.name === 'else' ? 0 : 1;
+        if (command.tests.length !== testCount || countArgs(command.args) > 0) {
+          const expected = testCount === 0 ? 'takes no test' : 'needs exactly one test';
+          issues.push({ line: command.line, message: `${command.name} ${expected}`, command: command.name });
+        }
+        if (!command.block) {
+          issues.push({ line: command.line, message: `${command.name} needs a block`, command: command.name });
+        }
+        command.tests.forEach(checkTest);
+        checkBlock(command.block ?? [], false);
+        previous = command.name;
+        continue;
+      }
+
+      const spec = COMMANDS[command.name];
+      if (!spec) {
+        issues.push({ line: command.line, message: `Unknown command "${command.name}"`, command: command.name });
+      } else {
+        checkSpec(command, spec, 'command');
+        if (command.tests.length > 0 || command.block) {
+          issues.push({
+            line: command.line,
+            message: `The command "${command.name}" cannot have a test or block`,
+            command: command.name,
+          });
+        }
+        if (EMPTY_MAILBOX_COMMANDS.includes(command.name) && getStrings(command.args).flat().includes('')) {
+          issues.push({
+            line: command.line,
+            message: `The command "${command.name}" needs a non-empty target`,
+            command: command.name,
+            value: '',
+          });
+        }
+      }
+      previous = command.name;
+    }
+  };
+
+  checkBlock(parsed.commands, true);
+  return issues;
+}
@@ -0,0 +1,108 @@
+// How an address entry is compared: the whole address, the exact domain,
+// the domain and its subdomains, the local part, a wildcard pattern on the
+// whole address, or a substring of the domain (the behaviour of entries
+// saved before match modes existed)
+export type AddressMatchMode = 'exact' | 'domain' | 'subdomains' | 'localpart' | 'wildcard' | 'domain-contains';
+
+export interface AddressEntry {
+  value: string;
+  mode: AddressMatchMode;
+}
+
+// Leaf test on an address header, matching when any entry matches
+export interface AddressCondition {
+  type: 'address';
+  header: 'from' | 'to';
+  entries: AddressEntry[];
+}
+
+export type MatchType = 'contains' | 'is' | 'matches';
+
+// Leaf test on the Subject header. "matches" supports * and ? wildcards.
+export interface SubjectCondition {
+  type: 'subject';
+  matchType: MatchType;
+  values: string[];
+}
+
+// Leaf test on any other header, such as List-Id or X-Mailer
+export interface HeaderCondition {
+  type: 'header';
+  name: string;
+  matchType: MatchType;
+  values: string[];
+}
+
+export interface AllOfCondition {
+  type: 'allof';
+  children: ConditionNode[];
+}
+
+export interface AnyOfCondition {
+  type: 'anyof';
+  children: ConditionNode[];
+}
+
+export interface NotCondition {
+  type: 'not';
+  child: ConditionNode;
+}
+
+export type ConditionNode =
+  | AllOfCondition
+  | AnyOfCondition
+  | NotCondition
+  | AddressCondition
+  | SubjectCondition
+  | HeaderCondition;
+
+// Automatic reply sent with the Sieve vacation extension
+export interface VacationAction {
+  subject: string;
+  body: string;
+  // Minimum days between replies to the same sender; null uses the server default
+  days: number | null;
+  // Our other addresses, so mail sent to them also counts as addressed to us
+  addresses: string[];
+}
+
+// The script a filter had when it was last marked as deployed. hash is the
+// SHA-256 of the script without its "# Generated:" line.
+export interface FilterDeployment {
+  hash: string;
+  deployedAt: string;
+  script: string;
+}
+
+// The settings that decide a filter's Sieve script. Each package adds its own
+// id, priority and updatedAt.
+export interface FilterSettings {
+  name: string;
+  // Disabled filters are kept but left out of combined exports
+  enabled: boolean;
+  // null matches every message
+  conditions: ConditionNode | null;
+  expirationDays: number | null;
+  // IMAP flags set with imap4flags: \Seen (read), \Flagged (starred) or custom keywords
+  flags: string[];
+  addYearLabel: boolean;
+  // Format such as "YYYY-MM" filled in at delivery time, see dateLabels.ts
+  dateLabel: string | null;
+  vacation: VacationAction | null;
+  targetFolder: string;
+  labels: string[];
+  // Stop running later filters after filing into a folder or label
+  stopProcessing: boolean;
+}
+
+// Changes made to several filters at once. Fields left out are not changed.
+export interface BulkEdit {
+  addLabels?: string[];
+  removeLabels?: string[];
+  // A number of days sets expiration, null clears it
+  expirationDays?: number | null;
+  // "" leaves mail in the inbox
+  targetFolder?: string;
+  markRead?: boolean;
+  addYearLabel?: boolean;
+}